@@ -0,0 +1,115 @@
+import { SearchIcon, UsersIcon } from "lucide-react";
+import { useMemo, useState } from "react";
+import { Input } from "@/components/ui/input";
+import type { ThreadCategory, ThreadSummary } from "@/lib/messageUtils";
+import { THREAD_CATEGORIES } from "@/lib/messageUtils";
+import { cn } from "@/lib/utils";
+import { Badge } from "./ui/badge";
+
+interface ConversationListProps {
+  summaries: ThreadSummary[];
+  activeThreadId?: string | null;
+  onThreadSelect: (summary: ThreadSummary) => void;
+  disabled?: boolean;
+}
+
+const CATEGORY_LABELS: Record<ThreadCategory, string> = {
+  inbox: "Inbox",
+  archived_threads: "Archived",
+  e2ee_cutover: "End-to-end encrypted",
+  filtered_threads: "Filtered",
+  message_requests: "Message requests",
+};
+
+export function ConversationList({
+  summaries,
+  activeThreadId,
+  onThreadSelect,
+  disabled = false,
+}: ConversationListProps) {
+  const [filter, setFilter] = useState("");
+
+  // Group by category, keeping the most-recent-first order within each group
+  const groups = useMemo(() => {
+    const term = filter.trim().toLowerCase();
+    const matching = term
+      ? summaries.filter(
+          (s) =>
+            s.title.toLowerCase().includes(term) ||
+            s.participants.some((p) => p.toLowerCase().includes(term)),
+        )
+      : summaries;
+
+    const categories: (ThreadCategory | null)[] = [...THREAD_CATEGORIES, null];
+    return categories
+      .map((category) => ({
+        category,
+        items: matching.filter((s) => s.thread.category === category),
+      }))
+      .filter((group) => group.items.length > 0);
+  }, [summaries, filter]);
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="relative">
+        <SearchIcon className="-translate-y-1/2 absolute top-1/2 left-2.5 h-4 w-4 text-muted-foreground" />
+        <Input
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          placeholder={`Filter ${summaries.length} conversations...`}
+          className="pl-8"
+          aria-label="Filter conversations"
+        />
+      </div>
+
+      {groups.map(({ category, items }) => (
+        <div key={category ?? "other"} className="flex flex-col gap-1">
+          <p className="px-1 font-medium text-muted-foreground text-xs">
+            {category ? CATEGORY_LABELS[category] : "Other"} ({items.length})
+          </p>
+          {items.map((summary) => (
+            <button
+              key={summary.thread.id}
+              type="button"
+              disabled={disabled}
+              onClick={() => onThreadSelect(summary)}
+              className={cn(
+                "flex flex-col gap-1 rounded-md border border-transparent px-2 py-1.5 text-left transition-colors hover:bg-accent/50 disabled:pointer-events-none disabled:opacity-50",
+                summary.thread.id === activeThreadId &&
+                  "border-border bg-accent",
+              )}
+            >
+              <div className="flex items-baseline justify-between gap-2">
+                <span className="truncate font-medium text-sm">
+                  {summary.title}
+                </span>
+                {summary.lastTimestamp !== null && (
+                  <span className="shrink-0 text-muted-foreground text-xs">
+                    {new Date(summary.lastTimestamp).toLocaleDateString()}
+                  </span>
+                )}
+              </div>
+              <div className="flex items-center justify-between gap-2">
+                <span className="flex min-w-0 items-center gap-1 text-muted-foreground text-xs">
+                  <UsersIcon className="h-3 w-3 shrink-0" />
+                  <span className="truncate">
+                    {summary.participants.join(", ") || "Unknown"}
+                  </span>
+                </span>
+                <Badge variant="secondary" className="shrink-0 rounded-sm">
+                  {summary.messageCount}
+                </Badge>
+              </div>
+            </button>
+          ))}
+        </div>
+      ))}
+
+      {groups.length === 0 && (
+        <p className="text-center text-muted-foreground text-sm">
+          No conversations match
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import { UploadIcon } from "lucide-react";
+import { type DragEvent, type ReactNode, useRef, useState } from "react";
+import { hasDraggedFiles, readDroppedEntries } from "@/lib/dropEntries";
+import { type ExportSelection, validateFolder } from "@/lib/messageUtils";
+import { cn } from "@/lib/utils";
+import { Spinner } from "./ui/spinner";
+
+interface DropZoneProps {
+  children: ReactNode;
+  onFolderSelected: (selection: ExportSelection) => void;
+  onError: (message: string) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+export function DropZone({
+  children,
+  onFolderSelected,
+  onError,
+  disabled = false,
+  className,
+}: DropZoneProps) {
+  const [isDragging, setIsDragging] = useState(false);
+  const [isReading, setIsReading] = useState(false);
+  // dragenter/dragleave fire for every child element; count them
+  const dragDepth = useRef(0);
+
+  const handleDragEnter = (e: DragEvent<HTMLDivElement>) => {
+    if (disabled || !hasDraggedFiles(e.dataTransfer)) return;
+    e.preventDefault();
+    dragDepth.current++;
+    setIsDragging(true);
+  };
+
+  const handleDragOver = (e: DragEvent<HTMLDivElement>) => {
+    if (disabled || !hasDraggedFiles(e.dataTransfer)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "copy";
+  };
+
+  const handleDragLeave = () => {
+    dragDepth.current = Math.max(0, dragDepth.current - 1);
+    if (dragDepth.current === 0) setIsDragging(false);
+  };
+
+  const handleDrop = async (e: DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    dragDepth.current = 0;
+    setIsDragging(false);
+    if (disabled || isReading) return;
+
+    setIsReading(true);
+    try {
+      const entries = await readDroppedEntries(e.dataTransfer);
+      onFolderSelected(validateFolder(entries));
+    } catch (err) {
+      onError(err instanceof Error ? err.message : "Unknown error occurred");
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  return (
+    // biome-ignore lint/a11y/noStaticElementInteractions: drop target only, loading is also available from the folder panel
+    <div
+      className={cn("relative", className)}
+      onDragEnter={handleDragEnter}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      {children}
+      {isReading && (
+        <div className="absolute inset-2 z-10 flex items-center justify-center gap-2 rounded-xl bg-background/90">
+          <Spinner />
+          <p className="text-sm">Reading dropped files...</p>
+        </div>
+      )}
+      {isDragging && (
+        <div className="pointer-events-none absolute inset-2 z-10 flex flex-col items-center justify-center gap-2 rounded-xl border-2 border-primary border-dashed bg-background/90">
+          <UploadIcon className="h-8 w-8 text-primary" />
+          <p className="font-medium">Drop a chat folder or export .zip</p>
+          <p className="text-muted-foreground text-sm">
+            A single conversation or the whole messages folder
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,256 @@
+import { ChevronDownIcon } from "lucide-react";
+import { useMemo, useRef, useState } from "react";
+import type { DateRange } from "react-day-picker";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  type AttachmentExportProgress,
+  exportAttachments,
+  filterAttachments,
+} from "@/lib/attachmentExport";
+import { isAbortError } from "@/lib/messageIngest";
+import {
+  type AttachmentItem,
+  downloadFile,
+  type FolderStructure,
+  getEndOfDay,
+  MEDIA_KINDS,
+  type MediaKind,
+} from "@/lib/messageUtils";
+
+const ALL_SENDERS = "__all__";
+
+const KIND_LABELS: Record<MediaKind, string> = {
+  photos: "Photos",
+  videos: "Videos",
+  gifs: "GIFs",
+  audio: "Audio",
+  files: "Files",
+};
+
+interface ExportMediaDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Every attachment of the conversation */
+  items: AttachmentItem[];
+  folderStructure: FolderStructure | null;
+  /** Conversation name, used for the archive name */
+  title: string;
+}
+
+/**
+ * Pick attachments by sender, date and type and save them as one zip
+ */
+export function ExportMediaDialog({
+  open,
+  onOpenChange,
+  items,
+  folderStructure,
+  title,
+}: ExportMediaDialogProps) {
+  const [sender, setSender] = useState(ALL_SENDERS);
+  const [range, setRange] = useState<DateRange | undefined>(undefined);
+  const [kinds, setKinds] = useState<MediaKind[]>([...MEDIA_KINDS]);
+  const [progress, setProgress] = useState<AttachmentExportProgress | null>(
+    null,
+  );
+  const abortRef = useRef<AbortController | null>(null);
+
+  const senders = useMemo(
+    () => [...new Set(items.map((item) => item.sender_name))].sort(),
+    [items],
+  );
+
+  const kindCounts = useMemo(() => {
+    const counts: Partial<Record<MediaKind, number>> = {};
+    for (const item of items) counts[item.kind] = (counts[item.kind] ?? 0) + 1;
+    return counts;
+  }, [items]);
+
+  const selected = useMemo(
+    () =>
+      filterAttachments(items, {
+        sender: sender === ALL_SENDERS ? null : sender,
+        from: range?.from?.getTime() ?? null,
+        to: range?.to ? getEndOfDay(range.to) : null,
+        kinds,
+      }),
+    [items, sender, range, kinds],
+  );
+
+  const isExporting = progress !== null;
+
+  const toggleKind = (kind: MediaKind, checked: boolean) => {
+    setKinds((prev) =>
+      checked ? [...prev, kind] : prev.filter((k) => k !== kind),
+    );
+  };
+
+  const handleExport = async () => {
+    if (!folderStructure || selected.length === 0) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress({ phase: "finding", filesRead: 0, fileCount: selected.length });
+
+    try {
+      const { zip, missing } = await exportAttachments(
+        folderStructure,
+        selected,
+        { onProgress: setProgress, signal: controller.signal },
+      );
+      downloadFile(zip, `${title} - media.zip`);
+      toast.success(
+        missing > 0
+          ? `Exported ${selected.length - missing} attachments (${missing} not in this export)`
+          : `Exported ${selected.length} attachments`,
+      );
+      onOpenChange(false);
+    } catch (error) {
+      if (!isAbortError(error)) {
+        toast.error(
+          `Failed to export media: ${error instanceof Error ? error.message : "Unknown error"}`,
+        );
+      }
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) abortRef.current?.abort();
+    onOpenChange(next);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Export media</DialogTitle>
+          <DialogDescription>
+            Save attachments as a zip. Files are named by date and sender.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label className="text-muted-foreground text-xs">Sender</Label>
+            <Select
+              value={sender}
+              onValueChange={setSender}
+              disabled={isExporting}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_SENDERS}>All senders</SelectItem>
+                {senders.map((name) => (
+                  <SelectItem key={name} value={name}>
+                    {name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-muted-foreground text-xs">Date Range</Label>
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button
+                  variant="outline"
+                  className="w-full justify-between font-normal"
+                  disabled={isExporting}
+                >
+                  {range?.from && range?.to
+                    ? `${range.from.toLocaleDateString()} - ${range.to.toLocaleDateString()}`
+                    : range?.from
+                      ? `From ${range.from.toLocaleDateString()}`
+                      : "All dates"}
+                  <ChevronDownIcon className="h-4 w-4" />
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent
+                className="w-auto overflow-hidden p-0"
+                align="start"
+              >
+                <Calendar mode="range" selected={range} onSelect={setRange} />
+              </PopoverContent>
+            </Popover>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-muted-foreground text-xs">Types</Label>
+            <div className="flex flex-wrap gap-4">
+              {MEDIA_KINDS.map((kind) => (
+                <Label key={kind} className="font-normal">
+                  <Checkbox
+                    checked={kinds.includes(kind)}
+                    onCheckedChange={(checked) =>
+                      toggleKind(kind, checked === true)
+                    }
+                    disabled={isExporting}
+                  />
+                  {KIND_LABELS[kind]} ({kindCounts[kind] ?? 0})
+                </Label>
+              ))}
+            </div>
+          </div>
+
+          {progress && (
+            <div className="space-y-1">
+              <div className="h-2 overflow-hidden rounded-full bg-muted">
+                <Progress
+                  className="h-full"
+                  value={(progress.filesRead / progress.fileCount) * 100}
+                />
+              </div>
+              <p className="text-muted-foreground text-xs">
+                {progress.phase === "finding" ? "Finding" : "Packing"}{" "}
+                {progress.filesRead} / {progress.fileCount} files...
+              </p>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleExport}
+            disabled={!folderStructure || selected.length === 0 || isExporting}
+          >
+            Export {selected.length} attachments
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
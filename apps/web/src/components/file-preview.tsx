@@ -0,0 +1,284 @@
+import {
+  DownloadIcon,
+  ExternalLinkIcon,
+  FileIcon,
+  MessageSquareIcon,
+} from "lucide-react";
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Table, TableBody, TableCell, TableRow } from "@/components/ui/table";
+import {
+  extractDocumentText,
+  extractSlides,
+  extractSpreadsheet,
+  getPreviewKind,
+  MAX_TEXT_PREVIEW_BYTES,
+} from "@/lib/documentPreview";
+import {
+  downloadFile,
+  type FileItem,
+  type FolderStructure,
+  formatBytes,
+  getMediaFile,
+} from "@/lib/messageUtils";
+import { guessMimeType } from "@/lib/zipReader";
+
+type PreviewContent =
+  | { kind: "pdf" | "image"; url: string }
+  | { kind: "text"; text: string; truncated: boolean }
+  | { kind: "document"; paragraphs: string[] }
+  | { kind: "spreadsheet"; rows: string[][] }
+  | { kind: "presentation"; slides: string[][] }
+  | { kind: null };
+
+/**
+ * Read a file into whatever its preview needs
+ * PDFs and images become object URLs, which the caller must revoke
+ */
+async function loadPreview(file: File): Promise<PreviewContent> {
+  const kind = getPreviewKind(file.name);
+  switch (kind) {
+    case "pdf":
+    case "image": {
+      // Files read from a zip or a drop may carry no type, which the PDF
+      // viewer and SVG rendering both need
+      const typed = file.type
+        ? file
+        : new Blob([file], { type: guessMimeType(file.name) });
+      return { kind, url: URL.createObjectURL(typed) };
+    }
+    case "text":
+      return {
+        kind,
+        text: await file.slice(0, MAX_TEXT_PREVIEW_BYTES).text(),
+        truncated: file.size > MAX_TEXT_PREVIEW_BYTES,
+      };
+    case "document":
+      return { kind, paragraphs: await extractDocumentText(file) };
+    case "spreadsheet":
+      return { kind, rows: await extractSpreadsheet(file) };
+    case "presentation":
+      return { kind, slides: await extractSlides(file) };
+    default:
+      return { kind: null };
+  }
+}
+
+function PreviewBody({ content }: { content: PreviewContent }) {
+  switch (content.kind) {
+    case "pdf":
+      return (
+        <iframe
+          src={content.url}
+          title="PDF preview"
+          className="h-full w-full rounded border"
+        />
+      );
+    case "image":
+      return (
+        <img
+          src={content.url}
+          alt="Attachment preview"
+          className="mx-auto max-h-full max-w-full object-contain"
+        />
+      );
+    case "text":
+      return (
+        <div className="h-full overflow-auto rounded border bg-muted/30 p-3">
+          <pre className="whitespace-pre-wrap break-words font-mono text-xs">
+            {content.text}
+          </pre>
+          {content.truncated && (
+            <p className="mt-2 text-muted-foreground text-xs">
+              Showing the first {formatBytes(MAX_TEXT_PREVIEW_BYTES)}, download
+              the file to see the rest
+            </p>
+          )}
+        </div>
+      );
+    case "document":
+      return (
+        <div className="h-full space-y-3 overflow-auto rounded border p-4 text-sm">
+          {content.paragraphs.map((paragraph, idx) => (
+            // biome-ignore lint/suspicious/noArrayIndexKey: paragraphs have no identity and never reorder
+            <p key={idx}>{paragraph}</p>
+          ))}
+        </div>
+      );
+    case "spreadsheet":
+      return (
+        <div className="h-full overflow-auto rounded border">
+          <Table>
+            <TableBody>
+              {content.rows.map((row, rowIdx) => (
+                // biome-ignore lint/suspicious/noArrayIndexKey: rows have no identity and never reorder
+                <TableRow key={rowIdx}>
+                  {row.map((cell, cellIdx) => (
+                    // biome-ignore lint/suspicious/noArrayIndexKey: cells have no identity and never reorder
+                    <TableCell key={cellIdx} className="text-xs">
+                      {cell}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      );
+    case "presentation":
+      return (
+        <div className="h-full space-y-3 overflow-auto">
+          {content.slides.map((slide, idx) => (
+            <div
+              // biome-ignore lint/suspicious/noArrayIndexKey: slides have no identity and never reorder
+              key={idx}
+              className="space-y-1 rounded border p-3 text-sm"
+            >
+              <p className="text-muted-foreground text-xs">Slide {idx + 1}</p>
+              {slide.map((text, textIdx) => (
+                // biome-ignore lint/suspicious/noArrayIndexKey: paragraphs have no identity and never reorder
+                <p key={textIdx}>{text}</p>
+              ))}
+            </div>
+          ))}
+        </div>
+      );
+    default:
+      return (
+        <div className="flex h-full flex-col items-center justify-center gap-2 text-muted-foreground">
+          <FileIcon className="h-8 w-8" />
+          <p className="text-sm">No preview available for this file type</p>
+        </div>
+      );
+  }
+}
+
+interface FilePreviewProps {
+  /** File to preview, or null when closed */
+  file: FileItem | null;
+  folderStructure: FolderStructure | null;
+  onClose: () => void;
+  onJumpToMessage?: (messageId: string) => void;
+}
+
+/**
+ * Side pane that shows a shared document without leaving the viewer
+ */
+export function FilePreview({
+  file,
+  folderStructure,
+  onClose,
+  onJumpToMessage,
+}: FilePreviewProps) {
+  const [source, setSource] = useState<File | null>(null);
+  const [content, setContent] = useState<PreviewContent | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!file || !folderStructure) return;
+
+    let cancelled = false;
+    let url: string | null = null;
+
+    getMediaFile(folderStructure, "files", file.attachment.uri)
+      .then(async (found) => {
+        if (!found) {
+          throw new Error("This file is not part of the selected export");
+        }
+        if (cancelled) return;
+        setSource(found);
+        const preview = await loadPreview(found);
+        if ("url" in preview) url = preview.url;
+        if (cancelled) {
+          if (url) URL.revokeObjectURL(url);
+          return;
+        }
+        setContent(preview);
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : "Unknown error");
+        }
+      });
+
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+      setSource(null);
+      setContent(null);
+      setError(null);
+    };
+  }, [file, folderStructure]);
+
+  const handleOpenInTab = () => {
+    if (content && "url" in content) {
+      window.open(content.url, "_blank", "noopener");
+    }
+  };
+
+  return (
+    <Sheet open={file !== null} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-full gap-0 sm:max-w-2xl">
+        <SheetHeader className="pr-10">
+          <SheetTitle className="truncate">{file?.name}</SheetTitle>
+          <SheetDescription>
+            {source && `${formatBytes(source.size)} · `}
+            {file?.sender_name} ·{" "}
+            {file && new Date(file.timestamp_ms).toLocaleString()}
+          </SheetDescription>
+          <div className="flex flex-wrap gap-2 pt-1">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => source && downloadFile(source, source.name)}
+              disabled={!source}
+            >
+              <DownloadIcon />
+              Download
+            </Button>
+            {content && "url" in content && (
+              <Button variant="outline" size="sm" onClick={handleOpenInTab}>
+                <ExternalLinkIcon />
+                Open in new tab
+              </Button>
+            )}
+            {file && onJumpToMessage && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  onJumpToMessage(file.messageId);
+                  onClose();
+                }}
+              >
+                <MessageSquareIcon />
+                Show in chat
+              </Button>
+            )}
+          </div>
+        </SheetHeader>
+
+        <div className="min-h-0 flex-1 p-4 pt-0">
+          {!folderStructure ? (
+            <p className="text-muted-foreground text-sm">
+              Open the export folder again to preview its files
+            </p>
+          ) : error ? (
+            <p className="text-muted-foreground text-sm">{error}</p>
+          ) : content ? (
+            <PreviewBody content={content} />
+          ) : (
+            <div className="h-full animate-pulse rounded bg-muted" />
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
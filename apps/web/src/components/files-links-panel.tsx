@@ -0,0 +1,349 @@
+import { useVirtualizer } from "@tanstack/react-virtual";
+import {
+  DownloadIcon,
+  ExternalLinkIcon,
+  EyeIcon,
+  FileIcon,
+  LinkIcon,
+  MessageSquareIcon,
+  SearchIcon,
+} from "lucide-react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  downloadFile,
+  type ExportEntry,
+  type FileItem,
+  type FolderStructure,
+  formatBytes,
+  getMediaEntry,
+  type LinkItem,
+} from "@/lib/messageUtils";
+
+const ROW_HEIGHT = 60;
+
+type Section = "files" | "links";
+
+type SortOrder = "newest" | "oldest" | "name" | "size";
+
+const SORT_LABELS: Record<Section, Partial<Record<SortOrder, string>>> = {
+  files: {
+    newest: "Newest first",
+    oldest: "Oldest first",
+    name: "Name",
+    size: "Size",
+  },
+  links: { newest: "Newest first", oldest: "Oldest first", name: "Domain" },
+};
+
+function formatItemDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleDateString();
+}
+
+interface FilesLinksPanelProps {
+  files: FileItem[];
+  links: LinkItem[];
+  folderStructure: FolderStructure | null;
+  onJumpToMessage: (messageId: string) => void;
+  onFileOpen: (file: FileItem) => void;
+}
+
+/**
+ * Searchable, sortable index of a conversation's documents and shared links
+ */
+export function FilesLinksPanel({
+  files,
+  links,
+  folderStructure,
+  onJumpToMessage,
+  onFileOpen,
+}: FilesLinksPanelProps) {
+  const scrollParentRef = useRef<HTMLDivElement>(null);
+  const [section, setSection] = useState<Section>("files");
+  const [query, setQuery] = useState("");
+  const [sortOrder, setSortOrder] = useState<SortOrder>("newest");
+  // Export entries of the files, for their size and contents
+  const [entries, setEntries] = useState<Map<string, ExportEntry>>(new Map());
+
+  useEffect(() => {
+    if (!folderStructure) {
+      setEntries(new Map());
+      return;
+    }
+
+    let cancelled = false;
+    Promise.all(
+      files.map(
+        async ({ attachment }) =>
+          [
+            attachment.uri,
+            await getMediaEntry(folderStructure, "files", attachment.uri),
+          ] as const,
+      ),
+    )
+      .then((resolved) => {
+        if (cancelled) return;
+        const found = new Map<string, ExportEntry>();
+        for (const [uri, entry] of resolved) {
+          if (entry) found.set(uri, entry);
+        }
+        setEntries(found);
+      })
+      .catch((error) => console.error("Failed to resolve files:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [files, folderStructure]);
+
+  const visibleFiles = useMemo(() => {
+    const term = query.trim().toLowerCase();
+    const matching = term
+      ? files.filter(
+          (file) =>
+            file.name.toLowerCase().includes(term) ||
+            file.sender_name.toLowerCase().includes(term),
+        )
+      : files;
+
+    const sizeOf = (file: FileItem) =>
+      entries.get(file.attachment.uri)?.size ?? -1;
+    return [...matching].sort((a, b) => {
+      switch (sortOrder) {
+        case "oldest":
+          return a.timestamp_ms - b.timestamp_ms;
+        case "name":
+          return a.name.localeCompare(b.name);
+        case "size":
+          return sizeOf(b) - sizeOf(a);
+        default:
+          return b.timestamp_ms - a.timestamp_ms;
+      }
+    });
+  }, [files, entries, query, sortOrder]);
+
+  const visibleLinks = useMemo(() => {
+    const term = query.trim().toLowerCase();
+    const matching = term
+      ? links.filter(
+          (link) =>
+            link.link.toLowerCase().includes(term) ||
+            link.share_text?.toLowerCase().includes(term) ||
+            link.sender_name.toLowerCase().includes(term),
+        )
+      : links;
+
+    return [...matching].sort((a, b) => {
+      switch (sortOrder) {
+        case "oldest":
+          return a.timestamp_ms - b.timestamp_ms;
+        case "name":
+          return a.domain.localeCompare(b.domain);
+        default:
+          return b.timestamp_ms - a.timestamp_ms;
+      }
+    });
+  }, [links, query, sortOrder]);
+
+  const rowCount =
+    section === "files" ? visibleFiles.length : visibleLinks.length;
+
+  const virtualizer = useVirtualizer({
+    count: rowCount,
+    getScrollElement: () => scrollParentRef.current,
+    estimateSize: () => ROW_HEIGHT,
+    overscan: 5,
+  });
+
+  const handleSectionChange = (value: string) => {
+    if (!value) return;
+    setSection(value as Section);
+    // Size has no meaning for links
+    if (value === "links" && sortOrder === "size") setSortOrder("newest");
+  };
+
+  const handleDownloadFile = async (file: FileItem) => {
+    const entry = entries.get(file.attachment.uri);
+    if (!entry) return;
+    try {
+      downloadFile(await entry.getFile(), file.name);
+    } catch (error) {
+      toast.error(
+        `Failed to download file: ${error instanceof Error ? error.message : "Unknown error"}`,
+      );
+    }
+  };
+
+  return (
+    <div className="flex h-full flex-col">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-2 border-b px-6 py-3">
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          size="sm"
+          value={section}
+          onValueChange={handleSectionChange}
+        >
+          <ToggleGroupItem value="files" className="px-3">
+            Files ({files.length})
+          </ToggleGroupItem>
+          <ToggleGroupItem value="links" className="px-3">
+            Links ({links.length})
+          </ToggleGroupItem>
+        </ToggleGroup>
+        <div className="relative min-w-40 flex-1">
+          <SearchIcon className="-translate-y-1/2 absolute top-1/2 left-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={
+              section === "files"
+                ? "Search file names or senders..."
+                : "Search links, titles or senders..."
+            }
+            className="h-8 pl-8"
+            aria-label={`Search ${section}`}
+          />
+        </div>
+        <Select
+          value={sortOrder}
+          onValueChange={(value) => setSortOrder(value as SortOrder)}
+        >
+          <SelectTrigger size="sm" className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(SORT_LABELS[section]).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Rows */}
+      <div
+        ref={scrollParentRef}
+        className="relative flex-1 overflow-y-auto px-6 [&::-webkit-scrollbar-thumb]:rounded-full [&::-webkit-scrollbar-thumb]:bg-gray-300 dark:[&::-webkit-scrollbar-thumb]:bg-neutral-500/50 [&::-webkit-scrollbar-track]:bg-transparent [&::-webkit-scrollbar]:w-2"
+      >
+        <div
+          className="relative w-full"
+          style={{ height: virtualizer.getTotalSize() }}
+        >
+          {virtualizer.getVirtualItems().map((virtualRow) => {
+            const file =
+              section === "files" ? visibleFiles[virtualRow.index] : null;
+            const link =
+              section === "links" ? visibleLinks[virtualRow.index] : null;
+            const item = file ?? link;
+            if (!item) return null;
+            const entry = file ? entries.get(file.attachment.uri) : undefined;
+
+            return (
+              <div
+                key={virtualRow.key}
+                className="absolute top-0 left-0 flex w-full items-center gap-3 border-b"
+                style={{
+                  height: virtualRow.size,
+                  transform: `translateY(${virtualRow.start}px)`,
+                }}
+              >
+                {file ? (
+                  <FileIcon className="h-4 w-4 shrink-0 text-muted-foreground" />
+                ) : (
+                  <LinkIcon className="h-4 w-4 shrink-0 text-muted-foreground" />
+                )}
+                <div className="min-w-0 flex-1">
+                  <p className="truncate font-medium text-sm">
+                    {file ? file.name : link?.share_text || link?.domain}
+                  </p>
+                  <p className="truncate text-muted-foreground text-xs">
+                    {file
+                      ? entry
+                        ? formatBytes(entry.size)
+                        : "Not in export"
+                      : link?.domain}
+                    {" · "}
+                    {item.sender_name} · {formatItemDate(item.timestamp_ms)}
+                  </p>
+                </div>
+                <div className="flex shrink-0 items-center gap-1">
+                  {file ? (
+                    <>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        onClick={() => onFileOpen(file)}
+                        disabled={!entry}
+                        aria-label="Preview file"
+                      >
+                        <EyeIcon className="h-3.5 w-3.5" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        onClick={() => handleDownloadFile(file)}
+                        disabled={!entry}
+                        aria-label="Download file"
+                      >
+                        <DownloadIcon className="h-3.5 w-3.5" />
+                      </Button>
+                    </>
+                  ) : (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      asChild
+                    >
+                      <a
+                        href={link?.link}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        aria-label="Open link"
+                      >
+                        <ExternalLinkIcon className="h-3.5 w-3.5" />
+                      </a>
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => onJumpToMessage(item.messageId)}
+                    aria-label="Show in chat"
+                  >
+                    <MessageSquareIcon className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+        {rowCount === 0 && (
+          <div className="flex h-full items-center justify-center text-muted-foreground">
+            <p>
+              {section === "files"
+                ? "No files to display"
+                : "No links to display"}
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
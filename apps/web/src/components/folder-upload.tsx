@@ -1,11 +1,42 @@
-import { AlertCircleIcon, FolderIcon } from "lucide-react";
-import { type ChangeEvent, useRef, useState } from "react";
+import {
+  AlertCircleIcon,
+  FileArchiveIcon,
+  FolderIcon,
+  HistoryIcon,
+  XIcon,
+} from "lucide-react";
+import {
+  type ChangeEvent,
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+} from "react";
 import { Button } from "@/components/ui/button";
-import { validateFolder } from "@/lib/messageUtils";
+import {
+  deleteDirectoryHandle,
+  listDirectoryHandles,
+  type SavedDirectory,
+  saveDirectoryHandle,
+} from "@/lib/conversationStore";
+import {
+  ensureReadPermission,
+  isDirectoryPickerSupported,
+  pickDirectory,
+  readDirectoryHandle,
+} from "@/lib/directoryAccess";
+import {
+  type ExportDirectory,
+  type ExportEntry,
+  type ExportSelection,
+  entriesFromFileList,
+  validateFolder,
+} from "@/lib/messageUtils";
+import { readZipEntries } from "@/lib/zipReader";
 import { Spinner } from "./ui/spinner";
 
 interface FolderUploadProps {
-  onFolderSelected: (files: File[], chatFolder: string) => void;
+  onFolderSelected: (selection: ExportSelection) => void;
   onDemoLoad: () => void;
   isProcessing?: boolean;
 }
@@ -16,7 +47,105 @@ export function FolderUpload({
   isProcessing = false,
 }: FolderUploadProps) {
   const [error, setError] = useState<string | null>(null);
+  const [isReading, setIsReading] = useState(false);
+  // Decided after mount so server and client render the same markup
+  const [canPickDirectory, setCanPickDirectory] = useState(false);
+  const [savedDirectories, setSavedDirectories] = useState<SavedDirectory[]>(
+    [],
+  );
   const inputRef = useRef<HTMLInputElement>(null);
+  const zipInputRef = useRef<HTMLInputElement>(null);
+  const isBusy = isProcessing || isReading;
+
+  const refreshSavedDirectories = useCallback(async () => {
+    setSavedDirectories(await listDirectoryHandles());
+  }, []);
+
+  useEffect(() => {
+    const supported = isDirectoryPickerSupported();
+    setCanPickDirectory(supported);
+    if (supported) {
+      refreshSavedDirectories().catch((err) => console.error(err));
+    }
+  }, [refreshSavedDirectories]);
+
+  const selectEntries = (
+    entries: ExportEntry[],
+    directories?: ExportDirectory[],
+  ) => {
+    try {
+      onFolderSelected(validateFolder(entries, directories));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error occurred");
+    }
+  };
+
+  const openDirectoryHandle = async (handle: FileSystemDirectoryHandle) => {
+    setIsReading(true);
+    try {
+      const { entries, directories } = await readDirectoryHandle(handle);
+      selectEntries(entries, directories);
+      await saveDirectoryHandle(handle);
+      await refreshSavedDirectories();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error occurred");
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleSelectClick = async () => {
+    setError(null);
+
+    // Fall back to the webkitdirectory input where the picker is unavailable
+    if (!canPickDirectory) {
+      inputRef.current?.click();
+      return;
+    }
+
+    let handle: FileSystemDirectoryHandle | null;
+    try {
+      handle = await pickDirectory();
+    } catch (err) {
+      // Blocked pickers (sandboxed frames, protected folders) reject;
+      // offer the webkitdirectory input instead
+      console.error("Directory picker failed:", err);
+      inputRef.current?.click();
+      return;
+    }
+
+    // Dismissed by the user
+    if (!handle) return;
+
+    try {
+      await openDirectoryHandle(handle);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error occurred");
+    }
+  };
+
+  const handleReopen = async (saved: SavedDirectory) => {
+    setError(null);
+
+    try {
+      if (!(await ensureReadPermission(saved.handle))) {
+        setError(`Permission to read "${saved.name}" was not granted.`);
+        return;
+      }
+      await openDirectoryHandle(saved.handle);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error occurred");
+    }
+  };
+
+  const handleForget = async (id: string) => {
+    try {
+      await deleteDirectoryHandle(id);
+      await refreshSavedDirectories();
+    } catch (err) {
+      console.error(err);
+    }
+  };
 
   const handleFolderSelect = (e: ChangeEvent<HTMLInputElement>) => {
     setError(null);
@@ -24,11 +153,24 @@ export function FolderUpload({
     const files = e.target.files;
     if (!files || files.length === 0) return;
 
+    selectEntries(entriesFromFileList(files));
+  };
+
+  const handleZipSelect = async (e: ChangeEvent<HTMLInputElement>) => {
+    setError(null);
+
+    const file = e.target.files?.[0];
+    // Allow picking the same archive again after an error
+    e.target.value = "";
+    if (!file) return;
+
+    setIsReading(true);
     try {
-      const { chatFolder, validFiles } = validateFolder(files);
-      onFolderSelected(validFiles, chatFolder);
+      selectEntries(await readZipEntries(file));
     } catch (err) {
       setError(err instanceof Error ? err.message : "Unknown error occurred");
+    } finally {
+      setIsReading(false);
     }
   };
 
@@ -43,19 +185,29 @@ export function FolderUpload({
           directory=""
           multiple
           onChange={handleFolderSelect}
-          disabled={isProcessing}
+          disabled={isBusy}
           className="hidden"
           id="folder-input"
           aria-label="Select folder"
         />
+        <input
+          ref={zipInputRef}
+          type="file"
+          accept=".zip,application/zip"
+          onChange={handleZipSelect}
+          disabled={isBusy}
+          className="hidden"
+          id="zip-input"
+          aria-label="Select export zip"
+        />
 
         <Button
-          onClick={() => inputRef.current?.click()}
-          disabled={isProcessing}
+          onClick={handleSelectClick}
+          disabled={isBusy}
           size="lg"
           className="w-full"
         >
-          {isProcessing ? (
+          {isBusy ? (
             <>
               <Spinner />
               Processing...
@@ -68,6 +220,46 @@ export function FolderUpload({
           )}
         </Button>
 
+        <Button
+          onClick={() => zipInputRef.current?.click()}
+          disabled={isBusy}
+          size="lg"
+          variant="secondary"
+          className="w-full"
+        >
+          <FileArchiveIcon className="mr-2 h-4 w-4" />
+          Open Export .zip
+        </Button>
+
+        {savedDirectories.length > 0 && (
+          <div className="flex flex-col gap-1">
+            {savedDirectories.map((saved) => (
+              <div key={saved.id} className="flex items-center gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="min-w-0 flex-1 justify-start"
+                  disabled={isBusy}
+                  onClick={() => handleReopen(saved)}
+                >
+                  <HistoryIcon className="h-3 w-3" />
+                  <span className="truncate">Reopen {saved.name}</span>
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6 shrink-0"
+                  disabled={isBusy}
+                  onClick={() => handleForget(saved.id)}
+                  aria-label={`Forget ${saved.name}`}
+                >
+                  <XIcon className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
         <div className="relative flex items-center gap-2">
           <div className="flex-1 border-t" />
           <span className="text-muted-foreground text-xs">OR</span>
@@ -76,7 +268,7 @@ export function FolderUpload({
 
         <Button
           onClick={onDemoLoad}
-          disabled={isProcessing}
+          disabled={isBusy}
           size="lg"
           variant="outline"
           className="w-full"
@@ -102,6 +294,12 @@ export function FolderUpload({
 ├── videos/
 └── audio/`}
         </pre>
+        <p className="mt-2 text-muted-foreground">
+          Or select the whole <code>messages/</code> folder to browse every
+          conversation in the export. HTML-format exports with{" "}
+          <code>message_1.html</code> files and Instagram data downloads work
+          too.
+        </p>
       </div>
     </div>
   );
@@ -0,0 +1,48 @@
+import type { ReactNode } from "react";
+import type { MatchRange } from "@/lib/searchQuery";
+
+interface HighlightedTextProps {
+  text: string;
+  /** Ascending, non-overlapping ranges of text to mark */
+  ranges: MatchRange[];
+  /**
+   * Characters kept before the first match; earlier text is cut and replaced
+   * with an ellipsis so the match stays visible in a truncated line
+   */
+  maxLead?: number;
+  className?: string;
+}
+
+export function HighlightedText({
+  text,
+  ranges,
+  maxLead,
+  className,
+}: HighlightedTextProps) {
+  const cut =
+    maxLead !== undefined && ranges.length > 0
+      ? Math.max(0, ranges[0][0] - maxLead)
+      : 0;
+
+  const parts: ReactNode[] = [];
+  let position = cut;
+  for (const [start, end] of ranges) {
+    if (end <= position) continue;
+    const from = Math.max(start, position);
+    if (from > position) parts.push(text.slice(position, from));
+    parts.push(
+      <mark key={from} className="rounded-sm bg-yellow-300 text-black">
+        {text.slice(from, end)}
+      </mark>,
+    );
+    position = end;
+  }
+  parts.push(text.slice(position));
+
+  return (
+    <span className={className}>
+      {cut > 0 && "…"}
+      {parts}
+    </span>
+  );
+}
@@ -0,0 +1,338 @@
+import { useVirtualizer } from "@tanstack/react-virtual";
+import { ImageIcon, Maximize2Icon, PlayIcon } from "lucide-react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { getThumbnail } from "@/lib/mediaThumbnails";
+import {
+  type FolderStructure,
+  getMediaEntry,
+  type MediaItem,
+  VISUAL_MEDIA_KINDS,
+  type VisualMediaKind,
+} from "@/lib/messageUtils";
+import { cn } from "@/lib/utils";
+
+const MIN_THUMBNAIL_SIZE = 120;
+const GAP = 4;
+const MONTH_HEADER_HEIGHT = 40;
+const ALL_SENDERS = "__all__";
+
+const KIND_LABELS: Record<VisualMediaKind, string> = {
+  photos: "Photos",
+  gifs: "GIFs",
+  videos: "Videos",
+};
+
+/** A thumbnail together with its position in the unfiltered media list */
+interface GalleryCell {
+  item: MediaItem;
+  index: number;
+}
+
+type GalleryRow =
+  | { type: "month"; key: string; label: string; count: number }
+  | { type: "cells"; key: string; cells: GalleryCell[] };
+
+/**
+ * Lay filtered media out as month headers followed by rows of thumbnails
+ */
+function buildGalleryRows(cells: GalleryCell[], columns: number): GalleryRow[] {
+  const months = new Map<string, GalleryCell[]>();
+  for (const cell of cells) {
+    const date = new Date(cell.item.timestamp_ms);
+    const key = `${date.getFullYear()}-${date.getMonth()}`;
+    const month = months.get(key);
+    if (month) month.push(cell);
+    else months.set(key, [cell]);
+  }
+
+  const rows: GalleryRow[] = [];
+  for (const [key, monthCells] of months) {
+    rows.push({
+      type: "month",
+      key,
+      label: new Date(monthCells[0].item.timestamp_ms).toLocaleDateString(
+        undefined,
+        { month: "long", year: "numeric" },
+      ),
+      count: monthCells.length,
+    });
+    for (let i = 0; i < monthCells.length; i += columns) {
+      rows.push({
+        type: "cells",
+        key: `${key}-${i}`,
+        cells: monthCells.slice(i, i + columns),
+      });
+    }
+  }
+  return rows;
+}
+
+interface MediaThumbnailProps {
+  item: MediaItem;
+  folderStructure: FolderStructure | null;
+}
+
+function MediaThumbnail({ item, folderStructure }: MediaThumbnailProps) {
+  const [src, setSrc] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+  const { kind, attachment } = item;
+
+  useEffect(() => {
+    let cancelled = false;
+    let url: string | null = null;
+    // Cells scrolled past drop their queued thumbnail
+    const abortController = new AbortController();
+
+    if (!folderStructure) {
+      if (attachment.backup_uri && kind === "photos") {
+        setSrc(attachment.backup_uri);
+      } else {
+        setFailed(true);
+      }
+      return;
+    }
+
+    getMediaEntry(folderStructure, kind, attachment.uri)
+      .then(async (entry) => {
+        if (!entry) throw new Error("Attachment not found in the export");
+        const thumbnail = await getThumbnail(entry, kind, {
+          signal: abortController.signal,
+        });
+        if (cancelled) return;
+        url = URL.createObjectURL(thumbnail);
+        setSrc(url);
+      })
+      .catch(() => {
+        if (!cancelled) setFailed(true);
+      });
+
+    return () => {
+      cancelled = true;
+      abortController.abort();
+      if (url) URL.revokeObjectURL(url);
+      setSrc(null);
+    };
+  }, [folderStructure, kind, attachment]);
+
+  if (src) {
+    return (
+      <img
+        src={src}
+        alt={`${KIND_LABELS[kind]} from ${item.sender_name}`}
+        loading="lazy"
+        className="h-full w-full object-cover"
+      />
+    );
+  }
+
+  return (
+    <div
+      className={cn(
+        "flex h-full w-full items-center justify-center bg-muted text-muted-foreground",
+        !failed && "animate-pulse",
+      )}
+    >
+      {failed && <ImageIcon className="h-5 w-5" />}
+    </div>
+  );
+}
+
+interface MediaGalleryProps {
+  /** Every photo, GIF and video of the conversation, oldest first */
+  items: MediaItem[];
+  folderStructure: FolderStructure | null;
+  /** Show the message a thumbnail was sent in */
+  onJumpToMessage: (messageId: string) => void;
+  /** Open an item, by its index in items, in the lightbox */
+  onItemOpen: (index: number) => void;
+}
+
+/**
+ * Month-by-month thumbnail grid of a conversation's media
+ */
+export function MediaGallery({
+  items,
+  folderStructure,
+  onJumpToMessage,
+  onItemOpen,
+}: MediaGalleryProps) {
+  const scrollParentRef = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState(0);
+  const [sender, setSender] = useState(ALL_SENDERS);
+  const [kinds, setKinds] = useState<VisualMediaKind[]>([
+    ...VISUAL_MEDIA_KINDS,
+  ]);
+
+  useEffect(() => {
+    const element = scrollParentRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(([entry]) =>
+      setWidth(entry.contentRect.width),
+    );
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  const senders = useMemo(
+    () => [...new Set(items.map((item) => item.sender_name))].sort(),
+    [items],
+  );
+
+  const columns = Math.max(
+    1,
+    Math.floor((width + GAP) / (MIN_THUMBNAIL_SIZE + GAP)),
+  );
+  const cellSize = width > 0 ? (width - GAP * (columns - 1)) / columns : 0;
+
+  const rows = useMemo(() => {
+    const cells = items.flatMap((item, index) =>
+      kinds.includes(item.kind) &&
+      (sender === ALL_SENDERS || item.sender_name === sender)
+        ? [{ item, index }]
+        : [],
+    );
+    return buildGalleryRows(cells, columns);
+  }, [items, kinds, sender, columns]);
+
+  const virtualizer = useVirtualizer({
+    count: rows.length,
+    getScrollElement: () => scrollParentRef.current,
+    estimateSize: (index) =>
+      rows[index].type === "month" ? MONTH_HEADER_HEIGHT : cellSize + GAP,
+    getItemKey: (index) => rows[index].key,
+    overscan: 3,
+  });
+
+  // Row heights follow the panel width
+  useEffect(() => {
+    if (cellSize > 0) virtualizer.measure();
+  }, [cellSize, virtualizer]);
+
+  const mediaCount = rows.reduce(
+    (count, row) => (row.type === "month" ? count + row.count : count),
+    0,
+  );
+
+  return (
+    <div className="flex h-full flex-col">
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-2 border-b px-6 py-3">
+        <Select value={sender} onValueChange={setSender}>
+          <SelectTrigger size="sm" className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_SENDERS}>All senders</SelectItem>
+            {senders.map((name) => (
+              <SelectItem key={name} value={name}>
+                {name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <ToggleGroup
+          type="multiple"
+          variant="outline"
+          size="sm"
+          value={kinds}
+          onValueChange={(value) => setKinds(value as VisualMediaKind[])}
+        >
+          {VISUAL_MEDIA_KINDS.map((kind) => (
+            <ToggleGroupItem key={kind} value={kind} className="px-3">
+              {KIND_LABELS[kind]}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+        <span className="ml-auto text-muted-foreground text-sm">
+          {mediaCount} of {items.length} items
+        </span>
+      </div>
+
+      {/* Grid */}
+      <div
+        ref={scrollParentRef}
+        className="relative flex-1 overflow-y-auto px-6 [&::-webkit-scrollbar-thumb]:rounded-full [&::-webkit-scrollbar-thumb]:bg-gray-300 dark:[&::-webkit-scrollbar-thumb]:bg-neutral-500/50 [&::-webkit-scrollbar-track]:bg-transparent [&::-webkit-scrollbar]:w-2"
+      >
+        <div
+          className="relative w-full"
+          style={{ height: virtualizer.getTotalSize() }}
+        >
+          {cellSize > 0 &&
+            virtualizer.getVirtualItems().map((virtualRow) => {
+              const row = rows[virtualRow.index];
+              return (
+                <div
+                  key={virtualRow.key}
+                  className="absolute top-0 left-0 w-full"
+                  style={{
+                    height: virtualRow.size,
+                    transform: `translateY(${virtualRow.start}px)`,
+                  }}
+                >
+                  {row.type === "month" ? (
+                    <h3 className="flex h-full items-end pb-2 font-semibold text-sm">
+                      {row.label}
+                      <span className="ml-2 font-normal text-muted-foreground">
+                        {row.count}
+                      </span>
+                    </h3>
+                  ) : (
+                    <div className="flex" style={{ gap: GAP }}>
+                      {row.cells.map(({ item, index }) => (
+                        <div
+                          key={`${item.messageId}-${item.attachment.uri}`}
+                          className="group relative overflow-hidden rounded"
+                          style={{ width: cellSize, height: cellSize }}
+                        >
+                          <button
+                            type="button"
+                            className="h-full w-full cursor-pointer"
+                            onClick={() => onJumpToMessage(item.messageId)}
+                            title={`${item.sender_name} · ${new Date(item.timestamp_ms).toLocaleString()}`}
+                          >
+                            <MediaThumbnail
+                              item={item}
+                              folderStructure={folderStructure}
+                            />
+                          </button>
+                          {item.kind === "videos" && (
+                            <PlayIcon className="pointer-events-none absolute bottom-1.5 left-1.5 h-4 w-4 fill-white text-white drop-shadow" />
+                          )}
+                          {item.kind === "gifs" && (
+                            <span className="pointer-events-none absolute bottom-1.5 left-1.5 rounded bg-black/60 px-1 font-medium text-[10px] text-white">
+                              GIF
+                            </span>
+                          )}
+                          <button
+                            type="button"
+                            className="absolute top-1.5 right-1.5 cursor-pointer rounded bg-black/60 p-1 text-white opacity-0 transition-opacity focus-visible:opacity-100 group-hover:opacity-100"
+                            onClick={() => onItemOpen(index)}
+                            aria-label="Open full screen"
+                          >
+                            <Maximize2Icon className="h-3.5 w-3.5" />
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+        </div>
+        {mediaCount === 0 && (
+          <div className="flex h-full items-center justify-center text-muted-foreground">
+            <p>No media to display</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,444 @@
+import {
+  CheckIcon,
+  CopyIcon,
+  MessageSquareIcon,
+  XIcon,
+  ZoomInIcon,
+  ZoomOutIcon,
+} from "lucide-react";
+import {
+  type PointerEvent,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type WheelEvent,
+} from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Carousel,
+  type CarouselApi,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+} from "@/components/ui/carousel";
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  cleanAttachmentPath,
+  copyToClipboard,
+  type FolderStructure,
+  getMediaFile,
+  type MediaItem,
+} from "@/lib/messageUtils";
+import { cn } from "@/lib/utils";
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 5;
+const ZOOM_STEP = 0.5;
+/** Slides rendered on each side of the current one */
+const SLIDE_WINDOW_RADIUS = 10;
+/** The window moves once the current slide is this close to its edge */
+const SLIDE_WINDOW_EDGE = 3;
+
+interface Pan {
+  x: number;
+  y: number;
+}
+
+function clampZoom(zoom: number): number {
+  return Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+}
+
+/**
+ * Slides rendered around an item; the carousel never holds the whole
+ * conversation. anchor is the item selected when the window was placed
+ */
+interface SlideWindow {
+  start: number;
+  anchor: number;
+}
+
+function getSlideWindow(index: number): SlideWindow {
+  return { start: Math.max(0, index - SLIDE_WINDOW_RADIUS), anchor: index };
+}
+
+interface LightboxSlideProps {
+  item: MediaItem;
+  folderStructure: FolderStructure | null;
+  /** Slides next to the current one preload, the rest stay empty */
+  isNear: boolean;
+  isCurrent: boolean;
+  zoom: number;
+  pan: Pan;
+  onZoomChange: (zoom: number) => void;
+  onPanChange: (pan: Pan) => void;
+}
+
+function LightboxSlide({
+  item,
+  folderStructure,
+  isNear,
+  isCurrent,
+  zoom,
+  pan,
+  onZoomChange,
+  onPanChange,
+}: LightboxSlideProps) {
+  const [src, setSrc] = useState<string | null>(null);
+  const [isMissing, setIsMissing] = useState(false);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const dragRef = useRef<{ x: number; y: number; pan: Pan } | null>(null);
+  const { kind, attachment } = item;
+
+  useEffect(() => {
+    if (!isNear) return;
+
+    let cancelled = false;
+    let url: string | null = null;
+
+    (folderStructure
+      ? getMediaFile(folderStructure, kind, attachment.uri)
+      : Promise.resolve(null)
+    )
+      .then((file) => {
+        if (cancelled) return;
+        if (file) {
+          url = URL.createObjectURL(file);
+          setSrc(url);
+        } else if (attachment.backup_uri) {
+          setSrc(attachment.backup_uri);
+        } else {
+          setIsMissing(true);
+        }
+      })
+      .catch((error) => console.error("Failed to load attachment:", error));
+
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+      setSrc(null);
+    };
+  }, [isNear, folderStructure, kind, attachment]);
+
+  // Keep a video from playing on once it is swiped away
+  useEffect(() => {
+    if (!isCurrent) videoRef.current?.pause();
+  }, [isCurrent]);
+
+  const handleWheel = (event: WheelEvent) => {
+    if (!isCurrent || kind === "videos") return;
+    onZoomChange(clampZoom(zoom - Math.sign(event.deltaY) * ZOOM_STEP));
+  };
+
+  const handlePointerDown = (event: PointerEvent<HTMLDivElement>) => {
+    if (zoom === MIN_ZOOM) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = { x: event.clientX, y: event.clientY, pan };
+  };
+
+  const handlePointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    onPanChange({
+      x: drag.pan.x + (event.clientX - drag.x) / zoom,
+      y: drag.pan.y + (event.clientY - drag.y) / zoom,
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  if (isMissing) {
+    return (
+      <div className="flex h-full items-center justify-center text-sm text-white/70">
+        This file is not part of the selected export
+      </div>
+    );
+  }
+
+  if (!src) {
+    return <div className="h-full animate-pulse bg-white/5" />;
+  }
+
+  if (kind === "videos") {
+    return (
+      <div className="flex h-full items-center justify-center">
+        {/* biome-ignore lint/a11y/useMediaCaption: exports carry no captions */}
+        <video
+          ref={videoRef}
+          src={src}
+          controls
+          className="max-h-full max-w-full"
+        />
+      </div>
+    );
+  }
+
+  return (
+    // biome-ignore lint/a11y/noStaticElementInteractions: zoom and pan are pointer gestures; the toolbar buttons offer the same zoom
+    <div
+      className={cn(
+        "flex h-full touch-none items-center justify-center overflow-hidden",
+        zoom > MIN_ZOOM && "cursor-grab active:cursor-grabbing",
+      )}
+      onWheel={handleWheel}
+      onDoubleClick={() => onZoomChange(zoom > MIN_ZOOM ? MIN_ZOOM : 2)}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      <img
+        src={src}
+        alt={`${kind === "gifs" ? "GIF" : "Photo"} from ${item.sender_name}`}
+        draggable={false}
+        className="max-h-full max-w-full select-none object-contain transition-transform duration-75"
+        style={
+          isCurrent
+            ? {
+                transform: `scale(${zoom}) translate(${pan.x}px, ${pan.y}px)`,
+              }
+            : undefined
+        }
+      />
+    </div>
+  );
+}
+
+interface MediaLightboxProps {
+  /** Every photo, GIF and video of the conversation, oldest first */
+  items: MediaItem[];
+  /** Item to show, or null when closed */
+  index: number | null;
+  folderStructure: FolderStructure | null;
+  onClose: () => void;
+  onJumpToMessage: (messageId: string) => void;
+}
+
+/**
+ * Full-screen viewer that flips through a conversation's media
+ */
+export function MediaLightbox({
+  items,
+  index,
+  folderStructure,
+  onClose,
+  onJumpToMessage,
+}: MediaLightboxProps) {
+  const [api, setApi] = useState<CarouselApi>();
+  const [current, setCurrent] = useState(index ?? 0);
+  const [slideWindow, setSlideWindow] = useState(() =>
+    getSlideWindow(index ?? 0),
+  );
+  const [zoom, setZoom] = useState(MIN_ZOOM);
+  const [pan, setPan] = useState<Pan>({ x: 0, y: 0 });
+  const [copied, setCopied] = useState(false);
+  const zoomRef = useRef(zoom);
+
+  useEffect(() => {
+    zoomRef.current = zoom;
+  }, [zoom]);
+
+  useEffect(() => {
+    if (index === null) return;
+    setCurrent(index);
+    setSlideWindow(getSlideWindow(index));
+  }, [index]);
+
+  const windowItems = items.slice(
+    slideWindow.start,
+    slideWindow.start + SLIDE_WINDOW_RADIUS * 2 + 1,
+  );
+
+  // Options only change when the window moves, which re-selects the anchor;
+  // dragging is checked per gesture so zooming does not re-initialize
+  const carouselOptions = useMemo(
+    () => ({
+      startIndex: slideWindow.anchor - slideWindow.start,
+      watchDrag: () => zoomRef.current === MIN_ZOOM,
+    }),
+    [slideWindow],
+  );
+
+  const handleSelect = useCallback(
+    (carousel: NonNullable<CarouselApi>) => {
+      setCurrent(slideWindow.start + carousel.selectedScrollSnap());
+      setZoom(MIN_ZOOM);
+      setPan({ x: 0, y: 0 });
+    },
+    [slideWindow.start],
+  );
+
+  // Move the window once a slide near its edge has settled
+  const handleSettle = useCallback(
+    (carousel: NonNullable<CarouselApi>) => {
+      const selected = carousel.selectedScrollSnap();
+      const last = carousel.slideNodes().length - 1;
+      const isNearStart = selected < SLIDE_WINDOW_EDGE && slideWindow.start > 0;
+      const isNearEnd =
+        selected > last - SLIDE_WINDOW_EDGE &&
+        slideWindow.start + last < items.length - 1;
+      if (isNearStart || isNearEnd) {
+        setSlideWindow(getSlideWindow(slideWindow.start + selected));
+      }
+    },
+    [slideWindow.start, items.length],
+  );
+
+  useEffect(() => {
+    if (!api) return;
+    api.on("select", handleSelect);
+    api.on("settle", handleSettle);
+    return () => {
+      api.off("select", handleSelect);
+      api.off("settle", handleSettle);
+    };
+  }, [api, handleSelect, handleSettle]);
+
+  const handleZoomChange = (next: number) => {
+    setZoom(next);
+    if (next === MIN_ZOOM) setPan({ x: 0, y: 0 });
+  };
+
+  const item = items[current];
+
+  const handleCopyPath = async () => {
+    if (!item) return;
+    if (await copyToClipboard(cleanAttachmentPath(item.attachment.uri))) {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    }
+  };
+
+  const handleJump = () => {
+    if (!item) return;
+    onJumpToMessage(item.messageId);
+    onClose();
+  };
+
+  return (
+    <Dialog open={index !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent
+        showCloseButton={false}
+        aria-describedby={undefined}
+        className="flex h-svh max-h-svh w-screen max-w-none flex-col gap-0 rounded-none border-0 bg-black/95 p-0 text-white sm:max-w-none"
+      >
+        {index !== null && (
+          <Carousel
+            setApi={setApi}
+            opts={carouselOptions}
+            className="flex min-h-0 flex-1 flex-col"
+          >
+            {/* Header */}
+            <div className="flex items-center justify-between gap-4 px-4 py-3">
+              <div className="min-w-0">
+                <DialogTitle className="truncate font-medium text-sm">
+                  {item?.sender_name}
+                </DialogTitle>
+                <p className="text-white/60 text-xs">
+                  {item && new Date(item.timestamp_ms).toLocaleString()} ·{" "}
+                  {current + 1} / {items.length}
+                </p>
+              </div>
+              <div className="flex items-center gap-1">
+                {item && item.kind !== "videos" && (
+                  <>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="text-white hover:bg-white/10 hover:text-white"
+                      onClick={() =>
+                        handleZoomChange(clampZoom(zoom - ZOOM_STEP))
+                      }
+                      disabled={zoom === MIN_ZOOM}
+                      aria-label="Zoom out"
+                    >
+                      <ZoomOutIcon />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="text-white hover:bg-white/10 hover:text-white"
+                      onClick={() =>
+                        handleZoomChange(clampZoom(zoom + ZOOM_STEP))
+                      }
+                      disabled={zoom === MAX_ZOOM}
+                      aria-label="Zoom in"
+                    >
+                      <ZoomInIcon />
+                    </Button>
+                  </>
+                )}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="text-white hover:bg-white/10 hover:text-white"
+                  onClick={handleCopyPath}
+                  aria-label="Copy file path"
+                >
+                  {copied ? (
+                    <CheckIcon className="text-green-500" />
+                  ) : (
+                    <CopyIcon />
+                  )}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-white hover:bg-white/10 hover:text-white"
+                  onClick={handleJump}
+                >
+                  <MessageSquareIcon />
+                  Show in chat
+                </Button>
+                <DialogClose asChild>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="text-white hover:bg-white/10 hover:text-white"
+                    aria-label="Close"
+                  >
+                    <XIcon />
+                  </Button>
+                </DialogClose>
+              </div>
+            </div>
+
+            {/* Slides */}
+            <CarouselContent className="h-[calc(100svh-4rem)]">
+              {windowItems.map((mediaItem, windowIndex) => (
+                <CarouselItem
+                  key={`${mediaItem.messageId}-${mediaItem.attachment.uri}`}
+                  className="h-full"
+                >
+                  <LightboxSlide
+                    item={mediaItem}
+                    folderStructure={folderStructure}
+                    isNear={
+                      Math.abs(slideWindow.start + windowIndex - current) <= 1
+                    }
+                    isCurrent={slideWindow.start + windowIndex === current}
+                    zoom={zoom}
+                    pan={pan}
+                    onZoomChange={handleZoomChange}
+                    onPanChange={setPan}
+                  />
+                </CarouselItem>
+              ))}
+            </CarouselContent>
+            <CarouselPrevious className="left-4 border-white/20 bg-black/50 text-white hover:bg-black/70 hover:text-white" />
+            <CarouselNext className="right-4 border-white/20 bg-black/50 text-white hover:bg-black/70 hover:text-white" />
+          </Carousel>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,27 +1,48 @@
 import { Image } from "@unpic/react";
 import {
+  ArrowUpFromLineIcon,
+  BanknoteIcon,
   CheckIcon,
   CopyIcon,
+  DownloadIcon,
+  EyeIcon,
   FileIcon,
   ImageIcon,
+  ListChecksIcon,
+  MapPinOffIcon,
+  Maximize2Icon,
   MusicIcon,
+  StickerIcon,
+  UsersIcon,
   VideoIcon,
 } from "lucide-react";
 import { motion } from "motion/react";
-import { useEffect, useMemo, useState } from "react";
+import { useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+import { HighlightedText } from "@/components/highlighted-text";
 import { Button } from "@/components/ui/button";
-import type { FolderStructure, Message } from "@/lib/messageUtils";
+import type {
+  Attachment,
+  FolderStructure,
+  MediaKind,
+  Message,
+} from "@/lib/messageUtils";
 import {
   cleanAttachmentPath,
   copyToClipboard,
+  downloadFile,
+  getMediaFile,
   getMessageBubbleRadius,
   getMessageBubbleSpacing,
   isMessageWithAttachments,
   type MessageBubbleGroupPosition,
 } from "@/lib/messageUtils";
+import { findQueryMatches, type SearchHighlight } from "@/lib/searchQuery";
 import { cn } from "@/lib/utils";
 import { Badge } from "./ui/badge";
 import { Tooltip, TooltipContent, TooltipTrigger } from "./ui/tooltip";
+import { VideoPlayer } from "./video-player";
+import { VoiceNotePlayer } from "./voice-note-player";
 
 interface MessageBubbleProps {
   message: Message;
@@ -29,6 +50,12 @@ interface MessageBubbleProps {
   isSelected?: boolean;
   isMainUser?: boolean;
   folderStructure?: FolderStructure | null;
+  /** Open a photo, GIF or video in the media lightbox */
+  onMediaOpen?: (messageId: string, uri: string) => void;
+  /** Preview a file attachment */
+  onFileOpen?: (messageId: string, uri: string) => void;
+  /** Search whose matches are marked in the message text */
+  highlight?: SearchHighlight | null;
 }
 
 export function MessageBubble({
@@ -37,6 +64,9 @@ export function MessageBubble({
   isSelected,
   isMainUser = false,
   folderStructure,
+  onMediaOpen,
+  onFileOpen,
+  highlight,
 }: MessageBubbleProps) {
   const [copiedPath, setCopiedPath] = useState<string | null>(null);
   const [loadedImages, setLoadedImages] = useState<Set<string>>(new Set());
@@ -48,44 +78,116 @@ export function MessageBubble({
     setTimeout(() => setCopiedPath(null), 2000);
   };
 
+  const downloadAttachment = async (kind: MediaKind, uri: string) => {
+    if (!folderStructure) return;
+    try {
+      const file = await getMediaFile(folderStructure, kind, uri);
+      if (!file)
+        throw new Error("This file is not part of the selected export");
+      downloadFile(file, file.name);
+    } catch (err) {
+      toast.error(
+        `Failed to download attachment: ${err instanceof Error ? err.message : "Unknown error"}`,
+      );
+    }
+  };
+
+  const renderDownloadButton = (
+    kind: MediaKind,
+    uri: string,
+    className?: string,
+  ) =>
+    folderStructure && (
+      <Button
+        variant="ghost"
+        size="icon"
+        className={cn("h-6 w-6 shrink-0", className)}
+        onClick={() => downloadAttachment(kind, uri)}
+        aria-label="Download attachment"
+      >
+        <DownloadIcon className="h-3 w-3" />
+      </Button>
+    );
+
   const loadImage = (uri: string) => {
     setLoadedImages((prev) => new Set(prev).add(uri));
   };
 
-  // Create blob URLs only for loaded images
-  const blobUrls = useMemo(() => {
-    const urls: Record<string, string> = {};
-
-    if (!folderStructure) return urls;
+  // Create blob URLs only for loaded images and videos
+  // Entries may need to be read (or inflated from a zip) first, so this is async
+  const [blobUrls, setBlobUrls] = useState<Record<string, string>>({});
+  const blobUrlsRef = useRef(new Map<string, string>());
+  const blobUrlsSourceRef = useRef(folderStructure);
 
-    // Process photos - only create blob URLs for loaded images
-    message.photos?.forEach((photo) => {
-      if (!loadedImages.has(photo.uri)) return;
-      const fileName = photo.uri.split("/").pop();
-      if (fileName && folderStructure.photos[fileName]) {
-        urls[photo.uri] = URL.createObjectURL(folderStructure.photos[fileName]);
-      }
-    });
-
-    // Process videos - only create blob URLs for loaded videos
-    message.videos?.forEach((video) => {
-      if (!loadedImages.has(video.uri)) return;
-      const fileName = video.uri.split("/").pop();
-      if (fileName && folderStructure.videos[fileName]) {
-        urls[video.uri] = URL.createObjectURL(folderStructure.videos[fileName]);
+  // Revoke what is left when the bubble unmounts
+  useEffect(() => {
+    const urls = blobUrlsRef.current;
+    return () => {
+      for (const url of urls.values()) {
+        if (url.startsWith("blob:")) URL.revokeObjectURL(url);
       }
-    });
-
-    // Process GIFs - only create blob URLs for loaded GIFs
-    message.gifs?.forEach((gif) => {
-      if (!loadedImages.has(gif.uri)) return;
-      const fileName = gif.uri.split("/").pop();
-      if (fileName && folderStructure.gifs[fileName]) {
-        urls[gif.uri] = URL.createObjectURL(folderStructure.gifs[fileName]);
+      urls.clear();
+    };
+  }, []);
+
+  // Each attachment keeps its URL while it stays loaded, so loading another
+  // one does not reset a playing video
+  useEffect(() => {
+    const urls = blobUrlsRef.current;
+    // URLs from another export are all stale
+    if (blobUrlsSourceRef.current !== folderStructure) {
+      blobUrlsSourceRef.current = folderStructure;
+      for (const url of urls.values()) {
+        if (url.startsWith("blob:")) URL.revokeObjectURL(url);
       }
-    });
+      urls.clear();
+      setBlobUrls({});
+    }
+    if (loadedImages.size === 0 && urls.size === 0) return;
+
+    const attachments: [MediaKind, Attachment[] | undefined][] = [
+      ["photos", message.photos],
+      ["videos", message.videos],
+      ["gifs", message.gifs],
+    ];
+    const loaded = attachments.flatMap(([kind, items]) =>
+      (items ?? [])
+        .filter((item) => loadedImages.has(item.uri))
+        .map((item) => ({ kind, item })),
+    );
 
-    return urls;
+    const loadedUris = new Set(loaded.map(({ item }) => item.uri));
+    for (const [uri, url] of urls) {
+      if (loadedUris.has(uri)) continue;
+      if (url.startsWith("blob:")) URL.revokeObjectURL(url);
+      urls.delete(uri);
+    }
+
+    let cancelled = false;
+    Promise.all(
+      loaded
+        .filter(({ item }) => !urls.has(item.uri))
+        .map(async ({ kind, item }) => {
+          const file = folderStructure
+            ? await getMediaFile(folderStructure, kind, item.uri)
+            : null;
+          if (cancelled) return;
+          if (file) {
+            urls.set(item.uri, URL.createObjectURL(file));
+          } else if (item.backup_uri) {
+            // Not in the export; Facebook's CDN copy may still be online
+            urls.set(item.uri, item.backup_uri);
+          }
+        }),
+    )
+      .catch((error) => console.error("Failed to load attachment:", error))
+      .finally(() => {
+        if (!cancelled) setBlobUrls(Object.fromEntries(urls));
+      });
+
+    return () => {
+      cancelled = true;
+    };
   }, [
     folderStructure,
     loadedImages,
@@ -94,14 +196,38 @@ export function MessageBubble({
     message.gifs,
   ]);
 
-  // Cleanup blob URLs when component unmounts
+  // Stickers are small, so they load right away instead of on click
+  const [stickerUrl, setStickerUrl] = useState<string | null>(null);
+  const stickerUri = message.sticker?.uri;
+
   useEffect(() => {
+    if (!folderStructure || !stickerUri) return;
+
+    let cancelled = false;
+    let url: string | null = null;
+
+    getMediaFile(folderStructure, "stickers", stickerUri)
+      .then((file) => {
+        if (file && !cancelled) {
+          url = URL.createObjectURL(file);
+          setStickerUrl(url);
+        }
+      })
+      .catch((error) => console.error("Failed to load sticker:", error));
+
     return () => {
-      Object.values(blobUrls).forEach((url) => {
-        URL.revokeObjectURL(url);
-      });
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+      setStickerUrl(null);
     };
-  }, [blobUrls]);
+  }, [folderStructure, stickerUri]);
+
+  // A lone sticker is drawn without a bubble, like in Messenger
+  const isStickerOnly =
+    !!message.sticker &&
+    !message.content &&
+    !message.share &&
+    !isMessageWithAttachments(message);
 
   const messageAttachmentProps = {
     variant: "outline",
@@ -110,6 +236,16 @@ export function MessageBubble({
       "rounded-sm h-auto flex-col items-start gap-1 py-1.5 text-secondary-foreground",
   } as const;
 
+  const renderText = (text: string) =>
+    highlight ? (
+      <HighlightedText
+        text={text}
+        ranges={findQueryMatches(text, highlight.query, highlight.options)}
+      />
+    ) : (
+      text
+    );
+
   const messageBadgeProps = {
     className: "border border-primary/25 rounded-sm",
     variant: "secondary",
@@ -130,19 +266,23 @@ export function MessageBubble({
         </span>
       )}
       <div
+        // Message details on hover; the IP is too noisy to show inline
+        title={message.ip ? `Sent from ${message.ip}` : undefined}
         className={cn(
           "flex max-w-3/4 flex-col gap-2 p-3",
           getMessageBubbleRadius(groupPosition, isMainUser),
           isSelected && "ring-2 ring-blue-500",
-          isMainUser
-            ? "ml-auto bg-primary/90 text-primary-foreground"
-            : "bg-primary/10",
+          isStickerOnly
+            ? cn("p-0", isMainUser && "ml-auto")
+            : isMainUser
+              ? "ml-auto bg-primary/90 text-primary-foreground"
+              : "bg-primary/10",
         )}
       >
         {/* Message Content */}
         {message.content && (
           <p className="wrap-break-word whitespace-pre-wrap text-sm">
-            {message.content}
+            {renderText(message.content)}
           </p>
         )}
         {/* Unsent Message Indicator */}
@@ -166,12 +306,115 @@ export function MessageBubble({
             </a>
             {message.share.share_text && (
               <p className="mt-1 text-muted-foreground text-xs">
-                {message.share.share_text}
+                {renderText(message.share.share_text)}
               </p>
             )}
+            {message.share.original_content_owner && (
+              <p className="mt-1 text-muted-foreground text-xs">
+                Post by @{message.share.original_content_owner}
+              </p>
+            )}
+          </div>
+        )}
+        {/* Region-restricted Message */}
+        {message.is_geoblocked_for_viewer && (
+          <p className="flex items-center gap-1 text-muted-foreground text-sm italic">
+            <MapPinOffIcon className="h-3 w-3" />
+            This message isn't available in your region
+          </p>
+        )}
+        {/* Bumped Message */}
+        {message.bumped_message_metadata?.is_bumped && (
+          <div className="flex items-start gap-1 border-current/40 border-l-2 pl-2 text-xs opacity-80">
+            <ArrowUpFromLineIcon className="mt-0.5 h-3 w-3 shrink-0" />
+            <span>
+              Bumped
+              {message.bumped_message_metadata.bumped_message &&
+                `: ${message.bumped_message_metadata.bumped_message}`}
+            </span>
           </div>
         )}
-        {/* Call Duration */}
+        {/* Sticker */}
+        {message.sticker && stickerUrl && (
+          <button
+            type="button"
+            onClick={() =>
+              message.sticker && copyUriToClipboard(message.sticker.uri)
+            }
+            aria-label="Copy sticker path"
+          >
+            {/* GIF, APNG and WebP stickers animate in a plain <img> */}
+            <img
+              src={stickerUrl}
+              alt="Sticker"
+              className="h-auto max-h-32 w-auto max-w-32 object-contain"
+            />
+          </button>
+        )}
+        {message.sticker && !stickerUrl && (
+          <Button
+            {...messageAttachmentProps}
+            onClick={() =>
+              message.sticker && copyUriToClipboard(message.sticker.uri)
+            }
+          >
+            <div className="flex items-center gap-1">
+              <StickerIcon className="h-3 w-3" />
+              <span className="text-xs">Sticker</span>
+              {copiedPath === message.sticker.uri ? (
+                <CheckIcon className="h-3 w-3 text-green-500" />
+              ) : (
+                <CopyIcon className="h-3 w-3" />
+              )}
+            </div>
+          </Button>
+        )}
+        {/* Added or Removed People */}
+        {message.users && message.users.length > 0 && (
+          <p className="flex items-center gap-1 text-xs">
+            <UsersIcon className="h-3 w-3 shrink-0" />
+            {message.type === "Unsubscribe"
+              ? "Removed"
+              : message.type === "Subscribe"
+                ? "Added"
+                : "People"}
+            : {message.users.map((user) => user.name).join(", ")}
+          </p>
+        )}
+        {/* Poll */}
+        {message.poll && (
+          <div className="flex flex-col gap-1 rounded border bg-muted/50 p-2 text-secondary-foreground">
+            <p className="flex items-center gap-1 font-medium text-xs">
+              <ListChecksIcon className="h-3 w-3" />
+              {message.poll.question}
+            </p>
+            {message.poll.options.map((option) => (
+              <Tooltip key={option.option}>
+                <TooltipTrigger asChild>
+                  <div className="flex items-center justify-between gap-4 rounded-sm border bg-background/50 px-2 py-1 text-xs">
+                    <span>{option.option}</span>
+                    <span className="text-muted-foreground">
+                      {option.voters?.length ?? 0}
+                    </span>
+                  </div>
+                </TooltipTrigger>
+                {option.voters && option.voters.length > 0 && (
+                  <TooltipContent>{option.voters.join(", ")}</TooltipContent>
+                )}
+              </Tooltip>
+            ))}
+          </div>
+        )}
+        {/* Payment */}
+        {message.payment && (
+          <Badge {...messageBadgeProps}>
+            <BanknoteIcon className="h-3 w-3" />
+            {message.payment.amount} {message.payment.currency}
+            {message.payment.receiver && ` to ${message.payment.receiver}`}
+            {message.payment.status && ` · ${message.payment.status}`}
+          </Badge>
+        )}
+        {/* Call Duration; missed calls are drawn as event rows */}
         {message.call_duration !== undefined && (
           <Badge {...messageBadgeProps}>
             📞 Call duration: {Math.floor(message.call_duration / 60)}:
@@ -185,143 +428,245 @@ export function MessageBubble({
             {message.photos?.map((photo, idx) => {
               const isLoaded = loadedImages.has(photo.uri);
               const blobUrl = isLoaded ? blobUrls[photo.uri] : null;
-              const canLoadImage = !!folderStructure;
+              const canLoadImage = !!folderStructure || !!photo.backup_uri;
 
               return (
-                <Button
+                <div
                   key={`photo-${photo.creation_timestamp}`}
-                  variant="outline"
-                  size="sm"
-                  className="h-auto w-auto flex-col items-start gap-1 p-1"
-                  onClick={() => {
-                    if (!isLoaded && canLoadImage) {
-                      loadImage(photo.uri);
-                    } else if (isLoaded || !canLoadImage) {
-                      copyUriToClipboard(photo.uri);
-                    }
-                  }}
+                  className="relative"
                 >
-                  <motion.div
-                    layout
-                    animate={{
-                      opacity: isLoaded ? 1 : 0.5,
-                      scale: isLoaded ? 1 : 0.95,
-                    }}
-                    transition={{
-                      opacity: { duration: 0.3 },
-                      scale: { duration: 0.3 },
-                      layout: { duration: 0.3 },
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-auto w-auto flex-col items-start gap-1 p-1"
+                    onClick={() => {
+                      if (!isLoaded && canLoadImage) {
+                        loadImage(photo.uri);
+                      } else if (isLoaded && onMediaOpen) {
+                        onMediaOpen(message.id, photo.uri);
+                      } else {
+                        copyUriToClipboard(photo.uri);
+                      }
                     }}
-                    className="flex h-[400px] w-[400px] items-center justify-center"
                   >
-                    {blobUrl ? (
-                      <Image
-                        src={blobUrl}
-                        alt={`Attachment ${idx + 1}`}
-                        layout="constrained"
-                        width={400}
-                        height={400}
-                        className="h-auto max-h-[400px] w-auto max-w-[400px] rounded object-contain"
-                      />
-                    ) : (
-                      <div className="flex h-full w-full items-center justify-center rounded bg-muted/10">
-                        {!canLoadImage && (
-                          <span className="text-muted-foreground text-xs">
-                            No preview
-                          </span>
-                        )}
-                      </div>
-                    )}
-                  </motion.div>
-                  <div className="flex w-full items-center justify-center gap-2">
-                    <span className="text-xs">
-                      {canLoadImage && !isLoaded ? "Click to Load" : ""}
-                    </span>
-                    {isLoaded &&
-                      (copiedPath === photo.uri ? (
-                        <CheckIcon className="h-3 w-3 text-green-500" />
+                    <motion.div
+                      layout
+                      animate={{
+                        opacity: isLoaded ? 1 : 0.5,
+                        scale: isLoaded ? 1 : 0.95,
+                      }}
+                      transition={{
+                        opacity: { duration: 0.3 },
+                        scale: { duration: 0.3 },
+                        layout: { duration: 0.3 },
+                      }}
+                      className="flex h-[400px] w-[400px] items-center justify-center"
+                    >
+                      {blobUrl ? (
+                        <Image
+                          src={blobUrl}
+                          alt={`Attachment ${idx + 1}`}
+                          layout="constrained"
+                          width={400}
+                          height={400}
+                          className="h-auto max-h-[400px] w-auto max-w-[400px] rounded object-contain"
+                        />
                       ) : (
-                        <CopyIcon className="h-3 w-3" />
-                      ))}
-                  </div>
-                </Button>
+                        <div className="flex h-full w-full items-center justify-center rounded bg-muted/10">
+                          {!canLoadImage && (
+                            <span className="text-muted-foreground text-xs">
+                              No preview
+                            </span>
+                          )}
+                        </div>
+                      )}
+                    </motion.div>
+                    <div className="flex w-full items-center justify-center gap-2">
+                      <span className="text-xs">
+                        {canLoadImage && !isLoaded ? "Click to Load" : ""}
+                      </span>
+                      {isLoaded &&
+                        (onMediaOpen ? (
+                          <Maximize2Icon className="h-3 w-3" />
+                        ) : copiedPath === photo.uri ? (
+                          <CheckIcon className="h-3 w-3 text-green-500" />
+                        ) : (
+                          <CopyIcon className="h-3 w-3" />
+                        ))}
+                    </div>
+                  </Button>
+                  {renderDownloadButton(
+                    "photos",
+                    photo.uri,
+                    "absolute top-2 right-2 bg-background/80",
+                  )}
+                </div>
               );
             })}
 
             {/* Videos */}
-            {message.videos?.map((video, idx) => (
-              <Button
-                key={`video-${video.creation_timestamp}`}
-                {...messageAttachmentProps}
-                onClick={() => copyUriToClipboard(video.uri)}
-              >
-                <div className="flex items-center gap-1">
-                  <VideoIcon className="h-3 w-3" />
-                  <span className="text-xs">Video {idx + 1}</span>
-                  {copiedPath === video.uri ? (
-                    <CheckIcon className="h-3 w-3 text-green-500" />
-                  ) : (
-                    <CopyIcon className="h-3 w-3" />
-                  )}
+            {message.videos?.map((video, idx) => {
+              const isLoaded = loadedImages.has(video.uri);
+              const blobUrl = isLoaded ? blobUrls[video.uri] : null;
+              const canLoadVideo = !!folderStructure;
+
+              // The <video> element is only created once the file is loaded
+              if (blobUrl) {
+                return (
+                  <div
+                    key={`video-${video.creation_timestamp}`}
+                    className="flex flex-col items-start gap-1"
+                  >
+                    <VideoPlayer
+                      src={blobUrl}
+                      label={`Video ${idx + 1}`}
+                      onExpand={
+                        onMediaOpen
+                          ? () => onMediaOpen(message.id, video.uri)
+                          : undefined
+                      }
+                    />
+                    <div className="flex items-center gap-1">
+                      <Button
+                        {...messageAttachmentProps}
+                        onClick={() => copyUriToClipboard(video.uri)}
+                      >
+                        <div className="flex items-center gap-1">
+                          <span className="text-xs">Copy path</span>
+                          {copiedPath === video.uri ? (
+                            <CheckIcon className="h-3 w-3 text-green-500" />
+                          ) : (
+                            <CopyIcon className="h-3 w-3" />
+                          )}
+                        </div>
+                      </Button>
+                      {renderDownloadButton("videos", video.uri)}
+                    </div>
+                  </div>
+                );
+              }
+
+              return (
+                <div
+                  key={`video-${video.creation_timestamp}`}
+                  className="flex items-center gap-1"
+                >
+                  <Button
+                    {...messageAttachmentProps}
+                    onClick={() =>
+                      canLoadVideo
+                        ? loadImage(video.uri)
+                        : copyUriToClipboard(video.uri)
+                    }
+                  >
+                    <div className="flex items-center gap-1">
+                      <VideoIcon className="h-3 w-3" />
+                      <span className="text-xs">
+                        Video {idx + 1}
+                        {canLoadVideo &&
+                          (isLoaded ? " · Loading..." : " · Click to Load")}
+                      </span>
+                      {!canLoadVideo &&
+                        (copiedPath === video.uri ? (
+                          <CheckIcon className="h-3 w-3 text-green-500" />
+                        ) : (
+                          <CopyIcon className="h-3 w-3" />
+                        ))}
+                    </div>
+                  </Button>
+                  {renderDownloadButton("videos", video.uri)}
                 </div>
-              </Button>
-            ))}
+              );
+            })}
 
             {/* Audio Files */}
-            {message.audio_files?.map((audio, idx) => (
-              <Button
-                key={`audio-${audio.creation_timestamp}`}
-                {...messageAttachmentProps}
-                onClick={() => copyUriToClipboard(audio.uri)}
-              >
-                <div className="flex items-center gap-1">
-                  <MusicIcon className="h-3 w-3" />
-                  <span className="text-xs">Audio {idx + 1}</span>
-                  {copiedPath === audio.uri ? (
-                    <CheckIcon className="h-3 w-3 text-green-500" />
-                  ) : (
-                    <CopyIcon className="h-3 w-3" />
-                  )}
+            {message.audio_files?.map((audio, idx) =>
+              folderStructure ? (
+                <div
+                  key={`audio-${audio.uri}`}
+                  className="flex items-center gap-1"
+                >
+                  <VoiceNotePlayer
+                    audio={audio}
+                    messageId={message.id}
+                    folderStructure={folderStructure}
+                  />
+                  {renderDownloadButton("audio", audio.uri)}
                 </div>
-              </Button>
-            ))}
+              ) : (
+                <Button
+                  key={`audio-${audio.creation_timestamp}`}
+                  {...messageAttachmentProps}
+                  onClick={() => copyUriToClipboard(audio.uri)}
+                >
+                  <div className="flex items-center gap-1">
+                    <MusicIcon className="h-3 w-3" />
+                    <span className="text-xs">Audio {idx + 1}</span>
+                    {copiedPath === audio.uri ? (
+                      <CheckIcon className="h-3 w-3 text-green-500" />
+                    ) : (
+                      <CopyIcon className="h-3 w-3" />
+                    )}
+                  </div>
+                </Button>
+              ),
+            )}
 
             {/* Files */}
             {message.files?.map((file, idx) => (
-              <Button
+              <div
                 key={`file-${file.creation_timestamp}`}
-                {...messageAttachmentProps}
-                onClick={() => copyUriToClipboard(file.uri)}
+                className="flex items-center gap-1"
               >
-                <div className="flex items-center gap-1">
-                  <FileIcon className="h-3 w-3" />
-                  <span className="text-xs">File {idx + 1}</span>
-                  {copiedPath === file.uri ? (
-                    <CheckIcon className="h-3 w-3 text-green-500" />
-                  ) : (
-                    <CopyIcon className="h-3 w-3" />
-                  )}
-                </div>
-              </Button>
+                <Button
+                  {...messageAttachmentProps}
+                  onClick={() =>
+                    folderStructure && onFileOpen
+                      ? onFileOpen(message.id, file.uri)
+                      : copyUriToClipboard(file.uri)
+                  }
+                >
+                  <div className="flex items-center gap-1">
+                    <FileIcon className="h-3 w-3" />
+                    <span className="text-xs">File {idx + 1}</span>
+                    {folderStructure && onFileOpen ? (
+                      <EyeIcon className="h-3 w-3" />
+                    ) : copiedPath === file.uri ? (
+                      <CheckIcon className="h-3 w-3 text-green-500" />
+                    ) : (
+                      <CopyIcon className="h-3 w-3" />
+                    )}
+                  </div>
+                </Button>
+                {renderDownloadButton("files", file.uri)}
+              </div>
             ))}
 
             {/* GIFs */}
             {message.gifs?.map((gif, idx) => (
-              <Button
-                key={`gif-${gif.uri}`}
-                {...messageAttachmentProps}
-                onClick={() => copyUriToClipboard(gif.uri)}
-              >
-                <div className="flex items-center gap-1">
-                  <ImageIcon className="h-3 w-3" />
-                  <span className="text-xs">GIF {idx + 1}</span>
-                  {copiedPath === gif.uri ? (
-                    <CheckIcon className="h-3 w-3 text-green-500" />
-                  ) : (
-                    <CopyIcon className="h-3 w-3" />
-                  )}
-                </div>
-              </Button>
+              <div key={`gif-${gif.uri}`} className="flex items-center gap-1">
+                <Button
+                  {...messageAttachmentProps}
+                  onClick={() =>
+                    onMediaOpen
+                      ? onMediaOpen(message.id, gif.uri)
+                      : copyUriToClipboard(gif.uri)
+                  }
+                >
+                  <div className="flex items-center gap-1">
+                    <ImageIcon className="h-3 w-3" />
+                    <span className="text-xs">GIF {idx + 1}</span>
+                    {onMediaOpen ? (
+                      <Maximize2Icon className="h-3 w-3" />
+                    ) : copiedPath === gif.uri ? (
+                      <CheckIcon className="h-3 w-3 text-green-500" />
+                    ) : (
+                      <CopyIcon className="h-3 w-3" />
+                    )}
+                  </div>
+                </Button>
+                {renderDownloadButton("gifs", gif.uri)}
+              </div>
             ))}
           </div>
         )}
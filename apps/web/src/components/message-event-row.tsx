@@ -0,0 +1,61 @@
+import {
+  ImageIcon,
+  type LucideIcon,
+  PaletteIcon,
+  PencilIcon,
+  PhoneMissedIcon,
+  SmileIcon,
+  TagIcon,
+  UserMinusIcon,
+  UserPlusIcon,
+} from "lucide-react";
+import type { Message, MessageEventKind } from "@/lib/messageUtils";
+import { cn } from "@/lib/utils";
+
+const EVENT_ICONS: Record<MessageEventKind, LucideIcon> = {
+  group_name: PencilIcon,
+  member_added: UserPlusIcon,
+  member_left: UserMinusIcon,
+  member_removed: UserMinusIcon,
+  nickname: TagIcon,
+  theme: PaletteIcon,
+  group_photo: ImageIcon,
+  emoji: SmileIcon,
+  missed_call: PhoneMissedIcon,
+};
+
+interface MessageEventRowProps {
+  message: Message;
+  isSelected?: boolean;
+}
+
+/**
+ * Centered, muted timeline row for system messages like group renames
+ */
+export function MessageEventRow({ message, isSelected }: MessageEventRowProps) {
+  const Icon = message.event ? EVENT_ICONS[message.event] : null;
+  const users = message.users?.map((user) => user.name).join(", ");
+
+  return (
+    <div className="flex justify-center py-2">
+      <p
+        className={cn(
+          "flex max-w-3/4 items-center gap-1.5 rounded-full px-3 py-1 text-center text-muted-foreground text-xs",
+          message.event === "missed_call" && "text-red-600 dark:text-red-400",
+          isSelected && "ring-2 ring-blue-500",
+        )}
+      >
+        {Icon && <Icon className="h-3 w-3 shrink-0" />}
+        <span>
+          {message.content ??
+            (message.event === "missed_call"
+              ? `Missed call from ${message.sender_name}`
+              : `${message.sender_name}: ${users ?? ""}`)}
+          <span className="ml-1.5 opacity-70">
+            {message.formattedDate} {message.formattedTime}
+          </span>
+        </span>
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+import { HardDriveIcon, Trash2Icon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import type {
+  StorageEstimate,
+  StoredConversation,
+} from "@/lib/conversationStore";
+import { formatBytes } from "@/lib/messageUtils";
+import { cn } from "@/lib/utils";
+
+interface RecentConversationsProps {
+  conversations: StoredConversation[];
+  activeId?: string | null;
+  storageEstimate?: StorageEstimate | null;
+  onOpen: (id: string) => void;
+  onDelete: (id: string) => void;
+  disabled?: boolean;
+}
+
+export function RecentConversations({
+  conversations,
+  activeId,
+  storageEstimate,
+  onOpen,
+  onDelete,
+  disabled = false,
+}: RecentConversationsProps) {
+  return (
+    <div className="flex flex-col gap-3">
+      {conversations.length === 0 ? (
+        <p className="text-muted-foreground text-xs">
+          Conversations you open are saved in this browser and can be reopened
+          here without selecting the folder again.
+        </p>
+      ) : (
+        <div className="flex flex-col gap-1">
+          {conversations.map((conversation) => (
+            <div
+              key={conversation.id}
+              className={cn(
+                "group flex items-center gap-1 rounded-md border border-transparent transition-colors hover:bg-accent/50",
+                conversation.id === activeId && "border-border bg-accent",
+              )}
+            >
+              <button
+                type="button"
+                disabled={disabled}
+                onClick={() => onOpen(conversation.id)}
+                className="flex min-w-0 flex-1 flex-col gap-0.5 px-2 py-1.5 text-left disabled:pointer-events-none disabled:opacity-50"
+              >
+                <span className="truncate font-medium text-sm">
+                  {conversation.title}
+                </span>
+                <span className="truncate text-muted-foreground text-xs">
+                  {conversation.messageCount.toLocaleString()} messages
+                  {conversation.mediaCount > 0 &&
+                    ` · ${conversation.mediaCount} media (${formatBytes(conversation.mediaBytes)})`}
+                </span>
+              </button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="mr-1 h-6 w-6 shrink-0 opacity-0 group-hover:opacity-100"
+                disabled={disabled}
+                onClick={() => onDelete(conversation.id)}
+                aria-label={`Delete ${conversation.title}`}
+              >
+                <Trash2Icon className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {storageEstimate && storageEstimate.quota > 0 && (
+        <div className="flex flex-col gap-1.5">
+          <div className="flex items-center gap-1 text-muted-foreground text-xs">
+            <HardDriveIcon className="h-3 w-3" />
+            <span>
+              {formatBytes(storageEstimate.usage)} of{" "}
+              {formatBytes(storageEstimate.quota)} used
+            </span>
+          </div>
+          <Progress
+            className="h-1"
+            value={(storageEstimate.usage / storageEstimate.quota) * 100}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,15 @@
-import { WholeWord } from "lucide-react";
-import { useMemo, useState } from "react";
+import {
+  ChevronDownIcon,
+  ChevronLeftIcon,
+  ChevronRightIcon,
+  ChevronUpIcon,
+  LanguagesIcon,
+  WholeWord,
+  XIcon,
+} from "lucide-react";
+import { type KeyboardEvent, useEffect, useMemo, useState } from "react";
+import { HighlightedText } from "@/components/highlighted-text";
+import { Button } from "@/components/ui/button";
 import {
   Command,
   CommandGroup,
@@ -8,72 +18,197 @@ import {
   CommandList,
 } from "@/components/ui/command";
 import { Toggle } from "@/components/ui/toggle";
+import { isAbortError } from "@/lib/messageIngest";
+import { createMessageSearch, type MessageSearch } from "@/lib/messageSearch";
 import type { Message } from "@/lib/messageUtils";
+import {
+  findQueryMatches,
+  parseSearchQuery,
+  type SearchHighlight,
+} from "@/lib/searchQuery";
+import { cn } from "@/lib/utils";
+
+const PAGE_SIZE = 50;
+
+/** Characters shown before the first match of a result */
+const SNIPPET_LEAD = 24;
+
+/** Wait for messages to stop streaming in before indexing them */
+const INDEX_DELAY_MS = 300;
 
 interface SearchBarProps {
   messages: Message[];
-  onMessageSelect: (messageId: string) => void;
+  /** The hit being stepped through, null until one is picked or when closed */
+  onHitSelect: (messageId: string | null) => void;
+  /** Every hit of the current search, null when closed */
+  onResultsChange: (results: SearchResults | null) => void;
+}
+
+/** A search index together with the messages it was built from */
+interface IndexedSearch {
+  search: MessageSearch;
+  messages: Message[];
 }
 
-// Optimized search strategies for large datasets
-function createSearchMatcher(term: string, matchWholeWord: boolean) {
-  const trimmed = term.trim();
-  if (!trimmed) return () => false;
-
-  if (!matchWholeWord) {
-    // Simple case-insensitive substring search - fast for large datasets
-    const searchTerm = trimmed.toLowerCase();
-    return (text: string) => (text ?? "").toLowerCase().includes(searchTerm);
-  }
-
-  // Whole word matching with word boundary regex (case-insensitive)
-  const escapedTerm = trimmed.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
-  const regex = new RegExp(`\\b${escapedTerm}\\b`, "i");
-  return (text: string) => regex.test(text ?? "");
+export interface SearchResults extends SearchHighlight {
+  /** The messages the search ran over */
+  messages: Message[];
+  /** Ascending indexes into messages */
+  hits: Uint32Array;
 }
 
-export function SearchBar({ messages, onMessageSelect }: SearchBarProps) {
+export function SearchBar({
+  messages,
+  onHitSelect,
+  onResultsChange,
+}: SearchBarProps) {
   const [searchTerm, setSearchTerm] = useState("");
   const [matchWholeWord, setMatchWholeWord] = useState(false);
+  const [ignoreAccents, setIgnoreAccents] = useState(true);
+  const [indexed, setIndexed] = useState<IndexedSearch | null>(null);
+  const [isIndexing, setIsIndexing] = useState(false);
+  const [results, setResults] = useState<SearchResults | null>(null);
+  const [page, setPage] = useState(0);
+  /** Position of the current hit in results.hits */
+  const [hitIndex, setHitIndex] = useState<number | null>(null);
 
-  const searchResults = useMemo(() => {
-    const trimmed = searchTerm.trim();
-    if (!trimmed) return [];
+  // Build the index off the main thread whenever the conversation changes
+  useEffect(() => {
+    if (messages.length === 0) {
+      setIndexed(null);
+      return;
+    }
+
+    let search: MessageSearch | null = null;
+    let cancelled = false;
+    setIsIndexing(true);
 
-    const matcher = createSearchMatcher(trimmed, matchWholeWord);
-    const results: Message[] = [];
+    const timeout = setTimeout(() => {
+      search = createMessageSearch(messages);
+      search.ready
+        .then(() => {
+          if (!cancelled && search) setIndexed({ search, messages });
+        })
+        .catch((error) => console.error("Failed to index messages:", error))
+        .finally(() => {
+          if (!cancelled) setIsIndexing(false);
+        });
+    }, INDEX_DELAY_MS);
 
-    // Early exit after 50 results for UI performance
-    for (let i = 0; i < messages.length && results.length < 50; i++) {
-      const msg = messages[i];
+    return () => {
+      // Drop the disposed index so no search runs against a terminated worker
+      cancelled = true;
+      clearTimeout(timeout);
+      search?.dispose();
+      setIndexed(null);
+      setIsIndexing(false);
+    };
+  }, [messages]);
 
-      // Check content first (more likely to match)
-      if (msg.content && matcher(msg.content)) {
-        results.push(msg);
-        continue;
-      }
+  const parsed = useMemo(() => {
+    try {
+      return { query: parseSearchQuery(searchTerm), error: null };
+    } catch (err) {
+      return {
+        query: null,
+        error: err instanceof Error ? err.message : "Unknown error",
+      };
+    }
+  }, [searchTerm]);
 
-      // Then check sender name
-      if (matcher(msg.sender_name)) {
-        results.push(msg);
-      }
+  useEffect(() => {
+    const { query } = parsed;
+    setPage(0);
+    setHitIndex(null);
+    if (!query || !indexed) {
+      setResults(null);
+      return;
     }
 
-    return results;
-  }, [messages, searchTerm, matchWholeWord]);
+    let cancelled = false;
+    const options = { wholeWord: matchWholeWord, ignoreAccents };
+    indexed.search
+      .search(query, options)
+      .then((hits) => {
+        if (!cancelled) {
+          setResults({
+            query,
+            options,
+            messages: indexed.messages,
+            hits,
+          });
+        }
+      })
+      .catch((error) => {
+        if (!isAbortError(error)) console.error("Search failed:", error);
+      });
 
-  const handleResultClick = (messageId: string) => {
-    onMessageSelect(messageId);
-    setSearchTerm("");
+    return () => {
+      cancelled = true;
+    };
+  }, [indexed, parsed, matchWholeWord, ignoreAccents]);
+
+  const activeHitId =
+    results && hitIndex !== null
+      ? (results.messages[results.hits[hitIndex]]?.id ?? null)
+      : null;
+
+  // The chat keeps the matches marked until the search is closed
+  useEffect(() => {
+    onResultsChange(results);
+  }, [results, onResultsChange]);
+
+  useEffect(() => {
+    onHitSelect(activeHitId);
+  }, [activeHitId, onHitSelect]);
+
+  const total = results?.hits.length ?? 0;
+
+  const selectHit = (index: number) => {
+    setHitIndex(index);
+    setPage(Math.floor(index / PAGE_SIZE));
+  };
+
+  const stepHit = (step: 1 | -1) => {
+    if (total === 0) return;
+    if (hitIndex === null) {
+      selectHit(step === 1 ? 0 : total - 1);
+    } else {
+      selectHit((hitIndex + step + total) % total);
+    }
+  };
+
+  const handleInputKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    // Handled before cmdk, which would otherwise pick the focused result
+    if (event.key === "Enter") {
+      event.preventDefault();
+      stepHit(event.shiftKey ? -1 : 1);
+    } else if (event.key === "Escape" && searchTerm) {
+      event.preventDefault();
+      setSearchTerm("");
+    }
   };
 
+  const pageCount = Math.ceil(total / PAGE_SIZE);
+  const pageStart = page * PAGE_SIZE;
+  const highlight = (text: string) =>
+    results ? findQueryMatches(text, results.query, results.options) : [];
+
+  const pageResults = results
+    ? Array.from(
+        results.hits.subarray(pageStart, pageStart + PAGE_SIZE),
+        (index) => results.messages[index],
+      )
+    : [];
+
   return (
     <Command className="rounded-lg border" shouldFilter={false}>
       <div className="flex items-center justify-between">
         <CommandInput
-          placeholder="Search messages or sender names..."
+          placeholder='Search, e.g. from:"Name" has:photo -word'
           value={searchTerm}
           onValueChange={setSearchTerm}
+          onKeyDown={handleInputKeyDown}
           className="flex-1 border-0 p-0"
         />
 
@@ -86,29 +221,102 @@ export function SearchBar({ messages, onMessageSelect }: SearchBarProps) {
         >
           <WholeWord className="h-4 w-4" />
         </Toggle>
+
+        <Toggle
+          pressed={ignoreAccents}
+          onPressedChange={setIgnoreAccents}
+          aria-label="Ignore accents and case"
+          size="sm"
+          className="mr-0.5 h-8 w-8 p-0"
+        >
+          <LanguagesIcon className="h-4 w-4" />
+        </Toggle>
       </div>
 
-      {searchResults.length > 0 && (
-        <CommandList className="max-h-[400px] [&::-webkit-scrollbar-thumb]:rounded-full [&::-webkit-scrollbar-thumb]:bg-gray-300 dark:[&::-webkit-scrollbar-thumb]:bg-neutral-500/50 [&::-webkit-scrollbar-track]:bg-transparent [&::-webkit-scrollbar]:w-2">
-          <CommandGroup
-            heading={`${searchResults.length}${searchResults.length === 50 ? "+" : ""} results`}
+      {parsed.error && (
+        <p className="px-3 py-2 text-destructive text-xs">{parsed.error}</p>
+      )}
+
+      {parsed.query && isIndexing && (
+        <p className="px-3 py-2 text-muted-foreground text-xs">
+          Indexing messages...
+        </p>
+      )}
+
+      {results && total === 0 && (
+        <p className="px-3 py-2 text-muted-foreground text-xs">
+          No messages found
+        </p>
+      )}
+
+      {/* Find in conversation */}
+      {total > 0 && (
+        <div className="flex items-center gap-1 border-t px-2 py-1">
+          <span className="flex-1 text-muted-foreground text-xs">
+            {hitIndex === null
+              ? `${total.toLocaleString()} hits, press Enter to step through`
+              : `Hit ${(hitIndex + 1).toLocaleString()} of ${total.toLocaleString()}`}
+          </span>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            onClick={() => stepHit(-1)}
+            aria-label="Previous hit"
+          >
+            <ChevronUpIcon className="h-3 w-3" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            onClick={() => stepHit(1)}
+            aria-label="Next hit"
           >
-            {searchResults.map((msg) => (
+            <ChevronDownIcon className="h-3 w-3" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            onClick={() => setSearchTerm("")}
+            aria-label="Close search"
+          >
+            <XIcon className="h-3 w-3" />
+          </Button>
+        </div>
+      )}
+
+      {pageResults.length > 0 && (
+        <CommandList className="max-h-[400px] [&::-webkit-scrollbar-thumb]:rounded-full [&::-webkit-scrollbar-thumb]:bg-gray-300 dark:[&::-webkit-scrollbar-thumb]:bg-neutral-500/50 [&::-webkit-scrollbar-track]:bg-transparent [&::-webkit-scrollbar]:w-2">
+          <CommandGroup>
+            {pageResults.map((msg, i) => (
               <CommandItem
                 key={msg.id}
                 value={msg.id}
-                onSelect={() => handleResultClick(msg.id)}
-                className="flex flex-col items-start gap-1"
+                onSelect={() => selectHit(pageStart + i)}
+                className={cn(
+                  "flex flex-col items-start gap-1",
+                  msg.id === activeHitId && "bg-accent/60",
+                )}
               >
                 <div className="flex w-full items-baseline justify-between gap-2">
-                  <span className="font-medium text-sm">{msg.sender_name}</span>
+                  <HighlightedText
+                    text={msg.sender_name}
+                    ranges={highlight(msg.sender_name)}
+                    className="font-medium text-sm"
+                  />
                   <span className="text-muted-foreground text-xs">
                     {msg.formattedDate}
                   </span>
                 </div>
                 {msg.content && (
                   <p className="w-full truncate text-muted-foreground text-xs">
-                    {msg.content}
+                    <HighlightedText
+                      text={msg.content}
+                      ranges={highlight(msg.content)}
+                      maxLead={SNIPPET_LEAD}
+                    />
                   </p>
                 )}
               </CommandItem>
@@ -116,6 +324,36 @@ export function SearchBar({ messages, onMessageSelect }: SearchBarProps) {
           </CommandGroup>
         </CommandList>
       )}
+
+      {/* Pagination */}
+      {pageCount > 1 && (
+        <div className="flex items-center justify-between border-t px-2 py-1">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            onClick={() => setPage((prev) => prev - 1)}
+            disabled={page === 0}
+            aria-label="Previous results"
+          >
+            <ChevronLeftIcon className="h-3 w-3" />
+          </Button>
+          <span className="text-muted-foreground text-xs">
+            {pageStart + 1}–{Math.min(pageStart + PAGE_SIZE, total)} of{" "}
+            {total.toLocaleString()}
+          </span>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            onClick={() => setPage((prev) => prev + 1)}
+            disabled={page >= pageCount - 1}
+            aria-label="Next results"
+          >
+            <ChevronRightIcon className="h-3 w-3" />
+          </Button>
+        </div>
+      )}
     </Command>
   );
 }
@@ -0,0 +1,324 @@
+import { useVirtualizer } from "@tanstack/react-virtual";
+import { MessageSquareIcon } from "lucide-react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { MessageBubble } from "@/components/message-bubble";
+import { MessageEventRow } from "@/components/message-event-row";
+import type { SearchResults } from "@/components/search-bar";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  getVoiceNoteKey,
+  type VoiceNote,
+  VoicePlaybackProvider,
+} from "@/components/voice-note-player";
+import {
+  type FolderStructure,
+  getMessageGroupPosition,
+  type Message,
+} from "@/lib/messageUtils";
+import { cn } from "@/lib/utils";
+
+const CONTEXT_SIZES = [0, 1, 2, 3, 5, 10];
+const DEFAULT_CONTEXT_SIZE = 2;
+const DAY_HEADER_HEIGHT = 40;
+const ESTIMATED_MESSAGE_HEIGHT = 60;
+
+/** Consecutive messages around one or more hits of the same day */
+interface Excerpt {
+  /** First and last message index in results.messages, inclusive */
+  start: number;
+  end: number;
+  /** Message indexes of the hits inside the excerpt */
+  hits: number[];
+}
+
+interface DayRow {
+  type: "day";
+  key: string;
+  label: string;
+  /** Hits on the day */
+  count: number;
+}
+
+type ResultRow = DayRow | { type: "excerpt"; key: string; excerpt: Excerpt };
+
+function getDayKey(timestamp: number): string {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
+}
+
+/**
+ * Lay hits out as day headers followed by excerpts; hits whose context
+ * overlaps on the same day share one excerpt
+ */
+function buildResultRows(
+  messages: Message[],
+  hits: Uint32Array,
+  contextSize: number,
+): ResultRow[] {
+  const rows: ResultRow[] = [];
+  const days: DayRow[] = [];
+  let excerpt: Excerpt | null = null;
+
+  for (const hit of hits) {
+    let day = days.at(-1);
+    const dayKey = getDayKey(messages[hit].timestamp_ms);
+    const start = Math.max(0, hit - contextSize);
+    const end = Math.min(messages.length - 1, hit + contextSize);
+
+    if (excerpt && day?.key === dayKey && start <= excerpt.end + 1) {
+      excerpt.end = end;
+      excerpt.hits.push(hit);
+      day.count++;
+      continue;
+    }
+
+    if (day?.key !== dayKey) {
+      day = {
+        type: "day",
+        key: dayKey,
+        label: new Date(messages[hit].timestamp_ms).toLocaleDateString(
+          undefined,
+          { weekday: "long", day: "numeric", month: "long", year: "numeric" },
+        ),
+        count: 0,
+      };
+      days.push(day);
+      rows.push(day);
+    }
+    excerpt = { start, end, hits: [hit] };
+    day.count++;
+    rows.push({ type: "excerpt", key: `${hit}`, excerpt });
+  }
+  return rows;
+}
+
+interface SearchResultsViewProps {
+  results: SearchResults;
+  /** The hit being stepped through in the search bar */
+  activeHitId?: string | null;
+  mainUser?: string | null;
+  folderStructure?: FolderStructure | null;
+  /** Show a message in the chat */
+  onJumpToMessage: (messageId: string) => void;
+  onMediaOpen?: (messageId: string, uri: string) => void;
+  onFileOpen?: (messageId: string, uri: string) => void;
+}
+
+/**
+ * Search hits with the messages around them, grouped by day
+ */
+export function SearchResultsView({
+  results,
+  activeHitId,
+  mainUser,
+  folderStructure,
+  onJumpToMessage,
+  onMediaOpen,
+  onFileOpen,
+}: SearchResultsViewProps) {
+  const scrollParentRef = useRef<HTMLDivElement>(null);
+  const [contextSize, setContextSize] = useState(DEFAULT_CONTEXT_SIZE);
+  const { messages, hits } = results;
+
+  const rows = useMemo(
+    () => buildResultRows(messages, hits, contextSize),
+    [messages, hits, contextSize],
+  );
+
+  const virtualizer = useVirtualizer({
+    count: rows.length,
+    getScrollElement: () => scrollParentRef.current,
+    estimateSize: (index) => {
+      const row = rows[index];
+      return row.type === "day"
+        ? DAY_HEADER_HEIGHT
+        : (row.excerpt.end - row.excerpt.start + 1) * ESTIMATED_MESSAGE_HEIGHT;
+    },
+    getItemKey: (index) => rows[index].key,
+    overscan: 3,
+  });
+
+  // Voice notes shown in the excerpts play one after another
+  const voiceNotes = useMemo<VoiceNote[]>(
+    () =>
+      rows.flatMap((row) =>
+        row.type === "excerpt"
+          ? messages
+              .slice(row.excerpt.start, row.excerpt.end + 1)
+              .flatMap((message) =>
+                (message.audio_files ?? []).map((audio) => ({
+                  key: getVoiceNoteKey(message.id, audio.uri),
+                  messageId: message.id,
+                  uri: audio.uri,
+                })),
+              )
+          : [],
+      ),
+    [rows, messages],
+  );
+
+  const handleVoiceNoteAdvance = useCallback(
+    (messageId: string) => {
+      const messageIndex = messages.findIndex((m) => m.id === messageId);
+      const index = rows.findIndex(
+        (row) =>
+          row.type === "excerpt" &&
+          row.excerpt.start <= messageIndex &&
+          messageIndex <= row.excerpt.end,
+      );
+      if (index >= 0) virtualizer.scrollToIndex(index, { align: "center" });
+    },
+    [rows, messages, virtualizer],
+  );
+
+  // Follow the hit stepped to in the search bar
+  useEffect(() => {
+    if (!activeHitId) return;
+    const index = rows.findIndex(
+      (row) =>
+        row.type === "excerpt" &&
+        row.excerpt.hits.some((hit) => messages[hit].id === activeHitId),
+    );
+    if (index >= 0) virtualizer.scrollToIndex(index, { align: "center" });
+  }, [activeHitId, rows, messages, virtualizer]);
+
+  const renderMessage = (index: number, excerpt: Excerpt) => {
+    const message = messages[index];
+    const isHit = excerpt.hits.includes(index);
+    const groupPosition = getMessageGroupPosition(
+      index > excerpt.start ? messages[index - 1] : null,
+      message,
+      index < excerpt.end ? messages[index + 1] : null,
+    );
+
+    return (
+      <div key={message.id} className={cn(!isHit && "opacity-60")}>
+        {message.event ? (
+          <MessageEventRow
+            message={message}
+            isSelected={message.id === activeHitId}
+          />
+        ) : (
+          <MessageBubble
+            message={message}
+            groupPosition={groupPosition}
+            isSelected={message.id === activeHitId}
+            isMainUser={mainUser === message.sender_name}
+            folderStructure={folderStructure}
+            onMediaOpen={onMediaOpen}
+            onFileOpen={onFileOpen}
+            highlight={isHit ? results : null}
+          />
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <VoicePlaybackProvider
+      queue={voiceNotes}
+      folderStructure={folderStructure}
+      onAdvance={handleVoiceNoteAdvance}
+    >
+      <div className="flex h-full flex-col">
+        <div className="flex flex-wrap items-center gap-2 border-b px-6 py-3">
+          <Select
+            value={String(contextSize)}
+            onValueChange={(value) => setContextSize(Number(value))}
+          >
+            <SelectTrigger size="sm" className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CONTEXT_SIZES.map((size) => (
+                <SelectItem key={size} value={String(size)}>
+                  {size === 0
+                    ? "No context"
+                    : `${size} message${size === 1 ? "" : "s"} around each hit`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <span className="ml-auto text-muted-foreground text-sm">
+            {hits.length.toLocaleString()} hits
+          </span>
+        </div>
+
+        <div
+          ref={scrollParentRef}
+          className="relative flex-1 overflow-y-auto px-6 [&::-webkit-scrollbar-thumb]:rounded-full [&::-webkit-scrollbar-thumb]:bg-gray-300 dark:[&::-webkit-scrollbar-thumb]:bg-neutral-500/50 [&::-webkit-scrollbar-track]:bg-transparent [&::-webkit-scrollbar]:w-2"
+        >
+          <div
+            className="relative w-full"
+            style={{ height: virtualizer.getTotalSize() }}
+          >
+            {virtualizer.getVirtualItems().map((virtualRow) => {
+              const row = rows[virtualRow.index];
+              return (
+                <div
+                  key={virtualRow.key}
+                  ref={virtualizer.measureElement}
+                  data-index={virtualRow.index}
+                  className="absolute top-0 left-0 w-full"
+                  style={{ transform: `translateY(${virtualRow.start}px)` }}
+                >
+                  {row.type === "day" ? (
+                    <h3
+                      className="flex items-end pb-2 font-semibold text-sm"
+                      style={{ height: DAY_HEADER_HEIGHT }}
+                    >
+                      {row.label}
+                      <span className="ml-2 font-normal text-muted-foreground">
+                        {row.count}
+                      </span>
+                    </h3>
+                  ) : (
+                    <div className="mb-3 rounded-lg border p-3">
+                      <div className="mb-2 flex items-center justify-between gap-2">
+                        <span className="text-muted-foreground text-xs">
+                          {new Date(
+                            messages[row.excerpt.hits[0]].timestamp_ms,
+                          ).toLocaleTimeString()}
+                          {row.excerpt.hits.length > 1 &&
+                            ` · ${row.excerpt.hits.length} hits`}
+                        </span>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7"
+                          onClick={() =>
+                            onJumpToMessage(messages[row.excerpt.hits[0]].id)
+                          }
+                        >
+                          <MessageSquareIcon className="h-3.5 w-3.5" />
+                          Show in chat
+                        </Button>
+                      </div>
+                      {Array.from(
+                        { length: row.excerpt.end - row.excerpt.start + 1 },
+                        (_, i) =>
+                          renderMessage(row.excerpt.start + i, row.excerpt),
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+          {hits.length === 0 && (
+            <div className="flex h-full items-center justify-center text-muted-foreground">
+              <p>No messages found</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </VoicePlaybackProvider>
+  );
+}
@@ -0,0 +1,83 @@
+import { Maximize2Icon } from "lucide-react";
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { formatDuration } from "@/lib/messageUtils";
+import { extractVideoPoster } from "@/lib/videoPoster";
+
+interface VideoPlayerProps {
+  /** Object URL of the video, owned by the caller */
+  src: string;
+  label?: string;
+  /** Open the video full screen */
+  onExpand?: () => void;
+}
+
+/**
+ * Inline player for a video attachment with an extracted poster frame
+ */
+export function VideoPlayer({ src, label, onExpand }: VideoPlayerProps) {
+  const [posterUrl, setPosterUrl] = useState<string | null>(null);
+  const [duration, setDuration] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let url: string | null = null;
+
+    extractVideoPoster(src)
+      .then(({ poster, duration }) => {
+        if (cancelled) return;
+        setDuration(duration);
+        if (poster) {
+          url = URL.createObjectURL(poster);
+          setPosterUrl(url);
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : "Unknown error");
+        }
+      });
+
+    // The poster URL is ours to revoke; the video URL belongs to the bubble
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+      setPosterUrl(null);
+    };
+  }, [src]);
+
+  if (error) {
+    return <p className="p-2 text-muted-foreground text-xs">{error}</p>;
+  }
+
+  return (
+    <div className="relative">
+      {/* biome-ignore lint/a11y/useMediaCaption: exports carry no captions */}
+      <video
+        src={src}
+        poster={posterUrl ?? undefined}
+        controls
+        preload="metadata"
+        aria-label={label}
+        className="max-h-[400px] max-w-[400px] rounded bg-black"
+      />
+      {duration !== null && (
+        <span className="pointer-events-none absolute top-2 right-2 rounded bg-black/60 px-1.5 py-0.5 text-white text-xs">
+          {formatDuration(duration)}
+        </span>
+      )}
+      {onExpand && (
+        <Button
+          variant="secondary"
+          size="icon"
+          className="absolute top-2 left-2 h-7 w-7 bg-black/60 text-white hover:bg-black/80"
+          onClick={onExpand}
+          aria-label="Open full screen"
+        >
+          <Maximize2Icon className="h-3.5 w-3.5" />
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -1,14 +1,27 @@
 import { useVirtualizer } from "@tanstack/react-virtual";
-import { useEffect, useRef } from "react";
+import { useCallback, useEffect, useMemo, useRef } from "react";
 import type { FolderStructure, Message } from "@/lib/messageUtils";
 import { getMessageGroupPosition } from "@/lib/messageUtils";
+import type { SearchHighlight } from "@/lib/searchQuery";
 import { MessageBubble } from "./message-bubble";
+import { MessageEventRow } from "./message-event-row";
+import {
+  getVoiceNoteKey,
+  type VoiceNote,
+  VoicePlaybackProvider,
+} from "./voice-note-player";
 
 interface VirtualMessageListProps {
   messages: Message[];
   selectedMessageId?: string | null;
+  /** Search hit being stepped through; stays scrolled to and marked */
+  activeHitId?: string | null;
+  /** Search whose matches are marked in message text */
+  highlight?: SearchHighlight | null;
   mainUser?: string | null;
   folderStructure?: FolderStructure | null;
+  onMediaOpen?: (messageId: string, uri: string) => void;
+  onFileOpen?: (messageId: string, uri: string) => void;
   containerHeight?: number;
   itemHeight?: number;
   bufferSize?: number;
@@ -17,8 +30,12 @@ interface VirtualMessageListProps {
 export function VirtualMessageList({
   messages,
   selectedMessageId,
+  activeHitId,
+  highlight,
   mainUser,
   folderStructure,
+  onMediaOpen,
+  onFileOpen,
   itemHeight = 100,
   bufferSize = 5,
 }: VirtualMessageListProps) {
@@ -42,51 +59,106 @@ export function VirtualMessageList({
     }
   }, [selectedMessageId, messages, virtualizer]);
 
+  useEffect(() => {
+    if (!activeHitId) return;
+    const index = messages.findIndex((m) => m.id === activeHitId);
+    if (index >= 0) {
+      virtualizer.scrollToIndex(index, { align: "center" });
+    }
+  }, [activeHitId, messages, virtualizer]);
+
+  // Voice notes play one after another, scrolling each into view
+  const voiceNotes = useMemo<VoiceNote[]>(
+    () =>
+      messages.flatMap((message) =>
+        (message.audio_files ?? []).map((audio) => ({
+          key: getVoiceNoteKey(message.id, audio.uri),
+          messageId: message.id,
+          uri: audio.uri,
+        })),
+      ),
+    [messages],
+  );
+
+  const handleVoiceNoteAdvance = useCallback(
+    (messageId: string) => {
+      const index = messages.findIndex((m) => m.id === messageId);
+      if (index >= 0) {
+        virtualizer.scrollToIndex(index, { align: "center" });
+      }
+    },
+    [messages, virtualizer],
+  );
+
   const virtualItems = virtualizer.getVirtualItems();
   const totalSize = virtualizer.getTotalSize();
 
   return (
-    <div
-      ref={scrollParentRef}
-      className="relative h-full overflow-y-scroll border px-4 [&::-webkit-scrollbar-thumb]:rounded-full [&::-webkit-scrollbar-thumb]:bg-gray-300 dark:[&::-webkit-scrollbar-thumb]:bg-neutral-500/50 [&::-webkit-scrollbar-track]:bg-transparent [&::-webkit-scrollbar]:w-2"
+    <VoicePlaybackProvider
+      queue={voiceNotes}
+      folderStructure={folderStructure}
+      onAdvance={handleVoiceNoteAdvance}
     >
-      <div className="relative w-full" style={{ height: totalSize }}>
-        {virtualItems.map((item) => {
-          const message = messages[item.index];
-          const previousMessage =
-            item.index > 0 ? messages[item.index - 1] : null;
-          const nextMessage =
-            item.index < messages.length - 1 ? messages[item.index + 1] : null;
-          const groupPosition = getMessageGroupPosition(
-            previousMessage,
-            message,
-            nextMessage,
-          );
+      <div
+        ref={scrollParentRef}
+        className="relative h-full overflow-y-scroll border px-4 [&::-webkit-scrollbar-thumb]:rounded-full [&::-webkit-scrollbar-thumb]:bg-gray-300 dark:[&::-webkit-scrollbar-thumb]:bg-neutral-500/50 [&::-webkit-scrollbar-track]:bg-transparent [&::-webkit-scrollbar]:w-2"
+      >
+        <div className="relative w-full" style={{ height: totalSize }}>
+          {virtualItems.map((item) => {
+            const message = messages[item.index];
+            const previousMessage =
+              item.index > 0 ? messages[item.index - 1] : null;
+            const nextMessage =
+              item.index < messages.length - 1
+                ? messages[item.index + 1]
+                : null;
+            const groupPosition = getMessageGroupPosition(
+              previousMessage,
+              message,
+              nextMessage,
+            );
 
-          return (
-            <div
-              key={message.id}
-              ref={virtualizer.measureElement}
-              data-index={item.index}
-              className="absolute top-0 left-0 w-full will-change-transform"
-              style={{ transform: `translateY(${item.start}px)` }}
-            >
-              <MessageBubble
-                message={message}
-                groupPosition={groupPosition}
-                isSelected={message.id === selectedMessageId}
-                isMainUser={mainUser === message.sender_name}
-                folderStructure={folderStructure}
-              />
-            </div>
-          );
-        })}
-      </div>
-      {messages.length === 0 && (
-        <div className="flex h-full items-center justify-center text-muted-foreground">
-          <p>No messages to display</p>
+            return (
+              <div
+                key={message.id}
+                ref={virtualizer.measureElement}
+                data-index={item.index}
+                className="absolute top-0 left-0 w-full will-change-transform"
+                style={{ transform: `translateY(${item.start}px)` }}
+              >
+                {message.event ? (
+                  <MessageEventRow
+                    message={message}
+                    isSelected={
+                      message.id === selectedMessageId ||
+                      message.id === activeHitId
+                    }
+                  />
+                ) : (
+                  <MessageBubble
+                    message={message}
+                    groupPosition={groupPosition}
+                    isSelected={
+                      message.id === selectedMessageId ||
+                      message.id === activeHitId
+                    }
+                    isMainUser={mainUser === message.sender_name}
+                    folderStructure={folderStructure}
+                    onMediaOpen={onMediaOpen}
+                    onFileOpen={onFileOpen}
+                    highlight={highlight}
+                  />
+                )}
+              </div>
+            );
+          })}
         </div>
-      )}
-    </div>
+        {messages.length === 0 && (
+          <div className="flex h-full items-center justify-center text-muted-foreground">
+            <p>No messages to display</p>
+          </div>
+        )}
+      </div>
+    </VoicePlaybackProvider>
   );
 }
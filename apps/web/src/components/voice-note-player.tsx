@@ -0,0 +1,336 @@
+import { PauseIcon, PlayIcon } from "lucide-react";
+import {
+  createContext,
+  type MouseEvent,
+  type ReactNode,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import { Button } from "@/components/ui/button";
+import { getWaveform, type Waveform } from "@/lib/audioWaveform";
+import {
+  type Attachment,
+  type ExportEntry,
+  type FolderStructure,
+  formatDuration,
+  getMediaEntry,
+  getMediaFile,
+} from "@/lib/messageUtils";
+import { cn } from "@/lib/utils";
+
+export const PLAYBACK_RATES = [1, 1.5, 2] as const;
+
+export type PlaybackRate = (typeof PLAYBACK_RATES)[number];
+
+/** A voice note in conversation order */
+export interface VoiceNote {
+  key: string;
+  messageId: string;
+  uri: string;
+}
+
+export function getVoiceNoteKey(messageId: string, uri: string): string {
+  return `${messageId}|${uri}`;
+}
+
+interface VoicePlaybackContextValue {
+  activeKey: string | null;
+  isPlaying: boolean;
+  /** Position in the active voice note, in seconds */
+  currentTime: number;
+  rate: PlaybackRate;
+  setRate: (rate: PlaybackRate) => void;
+  /** Start a voice note, or pause and resume it when it is already active */
+  toggle: (note: VoiceNote) => void;
+  /** Move to a position in the active voice note, in seconds */
+  seek: (time: number) => void;
+}
+
+const VoicePlaybackContext = createContext<VoicePlaybackContextValue | null>(
+  null,
+);
+
+function useVoicePlayback() {
+  const context = useContext(VoicePlaybackContext);
+  if (!context) {
+    throw new Error(
+      "useVoicePlayback must be used within a <VoicePlaybackProvider />",
+    );
+  }
+  return context;
+}
+
+interface VoicePlaybackProviderProps {
+  /** Every voice note of the conversation, oldest first */
+  queue: VoiceNote[];
+  folderStructure?: FolderStructure | null;
+  /** Called with the message of the next voice note when playback advances */
+  onAdvance?: (messageId: string) => void;
+  children: ReactNode;
+}
+
+/**
+ * Plays one voice note at a time and moves on to the next when one ends
+ * The audio element lives here rather than in the players, so playback keeps
+ * going when a virtualized list unmounts the message that started it
+ */
+export function VoicePlaybackProvider({
+  queue,
+  folderStructure,
+  onAdvance,
+  children,
+}: VoicePlaybackProviderProps) {
+  const [activeNote, setActiveNote] = useState<VoiceNote | null>(null);
+  const [rate, setRate] = useState<PlaybackRate>(1);
+  const [src, setSrc] = useState<string | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const audioRef = useRef<HTMLAudioElement>(null);
+
+  // Only the active voice note holds an object URL
+  useEffect(() => {
+    if (!activeNote || !folderStructure) return;
+
+    let cancelled = false;
+    let url: string | null = null;
+    getMediaFile(folderStructure, "audio", activeNote.uri)
+      .then((file) => {
+        if (!file) throw new Error("Voice note not found in the export");
+        if (cancelled) return;
+        url = URL.createObjectURL(file);
+        setSrc(url);
+      })
+      .catch((err) => console.error("Failed to load voice note:", err));
+
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+      setSrc(null);
+      setIsPlaying(false);
+      setCurrentTime(0);
+    };
+  }, [activeNote, folderStructure]);
+
+  // Start as soon as the source is ready, including after auto-advance
+  useEffect(() => {
+    const element = audioRef.current;
+    if (!element || !src) return;
+    element.play().catch((err) => console.error("Playback failed:", err));
+  }, [src]);
+
+  useEffect(() => {
+    if (audioRef.current) audioRef.current.playbackRate = rate;
+  }, [rate]);
+
+  const toggle = useCallback(
+    (note: VoiceNote) => {
+      const element = audioRef.current;
+      if (note.key !== activeNote?.key) {
+        setActiveNote(note);
+      } else if (element?.paused) {
+        element.play().catch((err) => console.error("Playback failed:", err));
+      } else {
+        element?.pause();
+      }
+    },
+    [activeNote],
+  );
+
+  const seek = useCallback((time: number) => {
+    if (audioRef.current) audioRef.current.currentTime = time;
+  }, []);
+
+  const finish = () => {
+    const index = activeNote
+      ? queue.findIndex((note) => note.key === activeNote.key)
+      : -1;
+    const next = index >= 0 ? queue[index + 1] : undefined;
+    setActiveNote(next ?? null);
+    if (next) onAdvance?.(next.messageId);
+  };
+
+  const value = useMemo(
+    () => ({
+      activeKey: activeNote?.key ?? null,
+      isPlaying,
+      currentTime,
+      rate,
+      setRate,
+      toggle,
+      seek,
+    }),
+    [activeNote, isPlaying, currentTime, rate, toggle, seek],
+  );
+
+  return (
+    <VoicePlaybackContext.Provider value={value}>
+      {children}
+      {src && (
+        // biome-ignore lint/a11y/useMediaCaption: voice notes carry no captions
+        <audio
+          ref={audioRef}
+          src={src}
+          onPlay={(event) => {
+            event.currentTarget.playbackRate = rate;
+            setIsPlaying(true);
+          }}
+          onPause={() => setIsPlaying(false)}
+          onTimeUpdate={(event) =>
+            setCurrentTime(event.currentTarget.currentTime)
+          }
+          onEnded={finish}
+          className="hidden"
+        />
+      )}
+    </VoicePlaybackContext.Provider>
+  );
+}
+
+function drawWaveform(
+  canvas: HTMLCanvasElement,
+  peaks: number[],
+  progress: number,
+) {
+  const context = canvas.getContext("2d");
+  if (!context) return;
+
+  const ratio = window.devicePixelRatio || 1;
+  const width = canvas.clientWidth;
+  const height = canvas.clientHeight;
+  canvas.width = width * ratio;
+  canvas.height = height * ratio;
+  context.scale(ratio, ratio);
+  context.clearRect(0, 0, width, height);
+
+  const color = getComputedStyle(canvas).color;
+  const barWidth = width / peaks.length;
+  peaks.forEach((peak, index) => {
+    const barHeight = Math.max(2, peak * height);
+    context.globalAlpha = (index + 0.5) / peaks.length <= progress ? 1 : 0.35;
+    context.fillStyle = color;
+    context.fillRect(
+      index * barWidth + barWidth * 0.2,
+      (height - barHeight) / 2,
+      barWidth * 0.6,
+      barHeight,
+    );
+  });
+}
+
+interface VoiceNotePlayerProps {
+  audio: Attachment;
+  messageId: string;
+  folderStructure: FolderStructure;
+}
+
+/**
+ * Inline voice note player with a decoded waveform and playback speed
+ */
+export function VoiceNotePlayer({
+  audio,
+  messageId,
+  folderStructure,
+}: VoiceNotePlayerProps) {
+  const { activeKey, isPlaying, currentTime, rate, setRate, toggle, seek } =
+    useVoicePlayback();
+  const key = getVoiceNoteKey(messageId, audio.uri);
+  const isActive = activeKey === key;
+
+  const [entry, setEntry] = useState<ExportEntry | null>(null);
+  const [waveform, setWaveform] = useState<Waveform | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  // Find the file and decode its waveform
+  useEffect(() => {
+    let cancelled = false;
+
+    getMediaEntry(folderStructure, "audio", audio.uri)
+      .then(async (found) => {
+        if (!found) throw new Error("Voice note not found in the export");
+        if (cancelled) return;
+        setEntry(found);
+        const decoded = await getWaveform(found);
+        if (!cancelled) setWaveform(decoded);
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : "Unknown error");
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [folderStructure, audio.uri]);
+
+  const duration = waveform?.duration ?? 0;
+  const progress = isActive && duration > 0 ? currentTime / duration : 0;
+
+  useEffect(() => {
+    if (canvasRef.current && waveform) {
+      drawWaveform(canvasRef.current, waveform.peaks, progress);
+    }
+  }, [waveform, progress]);
+
+  const handleSeek = (event: MouseEvent<HTMLCanvasElement>) => {
+    if (!isActive || duration === 0) return;
+    const bounds = event.currentTarget.getBoundingClientRect();
+    seek(((event.clientX - bounds.left) / bounds.width) * duration);
+  };
+
+  const cycleRate = () => {
+    const index = PLAYBACK_RATES.indexOf(rate);
+    setRate(PLAYBACK_RATES[(index + 1) % PLAYBACK_RATES.length]);
+  };
+
+  if (error) {
+    return <p className="text-muted-foreground text-xs">{error}</p>;
+  }
+
+  const isPlayingThis = isActive && isPlaying;
+
+  return (
+    <div className="flex w-64 items-center gap-2">
+      <Button
+        variant="secondary"
+        size="icon"
+        className="h-8 w-8 shrink-0 rounded-full"
+        onClick={() => toggle({ key, messageId, uri: audio.uri })}
+        disabled={!entry}
+        aria-label={isPlayingThis ? "Pause voice note" : "Play voice note"}
+      >
+        {isPlayingThis ? (
+          <PauseIcon className="h-4 w-4" />
+        ) : (
+          <PlayIcon className="h-4 w-4" />
+        )}
+      </Button>
+      <canvas
+        ref={canvasRef}
+        onClick={handleSeek}
+        className={cn(
+          "h-8 min-w-0 flex-1",
+          isActive && "cursor-pointer",
+          !waveform && "animate-pulse",
+        )}
+      />
+      <span className="w-10 shrink-0 text-right text-xs tabular-nums">
+        {formatDuration(isActive ? currentTime : duration)}
+      </span>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-6 shrink-0 px-1.5 text-xs"
+        onClick={cycleRate}
+        aria-label="Playback speed"
+      >
+        {rate}x
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+/**
+ * Bulk export of a conversation's attachments as a zip archive
+ * Files are renamed after the message they came from, so the archive still
+ * sorts by date and shows who sent what once it leaves the viewer
+ */
+
+import {
+  type AttachmentItem,
+  type FolderStructure,
+  getMediaFile,
+  type MediaKind,
+} from "@/lib/messageUtils";
+import { createZip, type ZipSource } from "@/lib/zipWriter";
+
+export interface AttachmentExportFilter {
+  /** Only this sender's attachments, or everyone's when null */
+  sender: string | null;
+  /** Start of the range in ms, inclusive */
+  from: number | null;
+  /** End of the range in ms, inclusive */
+  to: number | null;
+  kinds: MediaKind[];
+}
+
+export interface AttachmentExportProgress {
+  /** Finding the files in the export, then packing them */
+  phase: "finding" | "packing";
+  /** Selected attachments done in this phase, out of fileCount */
+  filesRead: number;
+  fileCount: number;
+}
+
+export interface AttachmentExport {
+  zip: Blob;
+  /** Attachments that are not part of the selected export folder */
+  missing: number;
+}
+
+export function filterAttachments(
+  items: AttachmentItem[],
+  { sender, from, to, kinds }: AttachmentExportFilter,
+): AttachmentItem[] {
+  return items.filter(
+    (item) =>
+      kinds.includes(item.kind) &&
+      (sender === null || item.sender_name === sender) &&
+      (from === null || item.timestamp_ms >= from) &&
+      (to === null || item.timestamp_ms <= to),
+  );
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+/**
+ * Name an attachment inside the archive, e.g.
+ * "photos/2021-03-04 15.30.12 - Alice - 123456789.jpg"
+ */
+export function getExportFileName(item: AttachmentItem): string {
+  const date = new Date(item.timestamp_ms);
+  const stamp = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}.${pad(date.getMinutes())}.${pad(date.getSeconds())}`;
+  // Keep names valid on Windows and macOS too
+  const sender = item.sender_name.replace(/[\\/:*?"<>|]/g, "_").trim();
+  const name = item.attachment.uri.split("/").pop() || "attachment";
+  return `${item.kind}/${stamp} - ${sender || "Unknown"} - ${name}`;
+}
+
+/**
+ * Make names unique by numbering repeats before the extension
+ */
+function dedupeName(name: string, taken: Set<string>): string {
+  let candidate = name;
+  const dot = name.lastIndexOf(".");
+  const base = dot > name.lastIndexOf("/") ? name.slice(0, dot) : name;
+  const extension = name.slice(base.length);
+  for (let n = 2; taken.has(candidate); n++) {
+    candidate = `${base} (${n})${extension}`;
+  }
+  taken.add(candidate);
+  return candidate;
+}
+
+/**
+ * Package attachments into a zip with dated, sender-tagged file names
+ * @param options.onProgress - Optional callback after each file is added
+ * @param options.signal - Aborting rejects with AbortError
+ */
+export async function exportAttachments(
+  structure: FolderStructure,
+  items: AttachmentItem[],
+  {
+    onProgress,
+    signal,
+  }: {
+    onProgress?: (progress: AttachmentExportProgress) => void;
+    signal?: AbortSignal;
+  } = {},
+): Promise<AttachmentExport> {
+  const sources: ZipSource[] = [];
+  const taken = new Set<string>();
+  let missing = 0;
+
+  for (const [index, item] of items.entries()) {
+    signal?.throwIfAborted();
+    const file = await getMediaFile(structure, item.kind, item.attachment.uri);
+    onProgress?.({
+      phase: "finding",
+      filesRead: index + 1,
+      fileCount: items.length,
+    });
+    if (!file) {
+      missing++;
+      continue;
+    }
+    sources.push({
+      name: dedupeName(getExportFileName(item), taken),
+      file,
+      lastModified: item.timestamp_ms,
+    });
+  }
+
+  if (sources.length === 0) {
+    throw new Error("None of the selected attachments are in this export.");
+  }
+
+  const zip = await createZip(sources, {
+    signal,
+    // Missing attachments count as packed, so the total stays the selection
+    onProgress: ({ entriesWritten }) =>
+      onProgress?.({
+        phase: "packing",
+        filesRead: missing + entriesWritten,
+        fileCount: items.length,
+      }),
+  });
+  return { zip, missing };
+}
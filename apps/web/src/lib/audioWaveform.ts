@@ -0,0 +1,73 @@
+/**
+ * Waveform extraction for voice notes with the Web Audio API
+ * Results are cached per export entry, so scrolling back past a voice note
+ * does not decode it again
+ */
+
+import type { ExportEntry } from "@/lib/messageUtils";
+
+export interface Waveform {
+  /** Peak amplitude of each bar, from 0 to 1 */
+  peaks: number[];
+  /** Duration in seconds */
+  duration: number;
+}
+
+const DEFAULT_BAR_COUNT = 48;
+
+const waveformCache = new WeakMap<ExportEntry, Promise<Waveform>>();
+
+/**
+ * Reduce decoded samples to one peak per bar, normalized to the loudest bar
+ */
+function computePeaks(buffer: AudioBuffer, barCount: number): number[] {
+  const samples = buffer.getChannelData(0);
+  const samplesPerBar = Math.max(1, Math.floor(samples.length / barCount));
+  const peaks: number[] = [];
+
+  for (let bar = 0; bar < barCount; bar++) {
+    let peak = 0;
+    const start = bar * samplesPerBar;
+    const end = Math.min(start + samplesPerBar, samples.length);
+    for (let i = start; i < end; i++) {
+      const value = Math.abs(samples[i]);
+      if (value > peak) peak = value;
+    }
+    peaks.push(peak);
+  }
+
+  const loudest = Math.max(...peaks);
+  return loudest > 0 ? peaks.map((peak) => peak / loudest) : peaks;
+}
+
+async function decodeWaveform(
+  entry: ExportEntry,
+  barCount: number,
+): Promise<Waveform> {
+  const file = await entry.getFile();
+  // An offline context decodes without needing a user gesture to start audio
+  const context = new OfflineAudioContext(1, 1, 44_100);
+  const buffer = await context.decodeAudioData(await file.arrayBuffer());
+  return {
+    peaks: computePeaks(buffer, barCount),
+    duration: buffer.duration,
+  };
+}
+
+/**
+ * Decode an audio entry into waveform bars
+ * @throws Error when the browser cannot decode the file
+ */
+export function getWaveform(
+  entry: ExportEntry,
+  barCount = DEFAULT_BAR_COUNT,
+): Promise<Waveform> {
+  let waveform = waveformCache.get(entry);
+  if (!waveform) {
+    waveform = decodeWaveform(entry, barCount);
+    // Let a failed decode be retried later
+    waveform.catch(() => waveformCache.delete(entry));
+    waveformCache.set(entry, waveform);
+  }
+  return waveform;
+}
@@ -0,0 +1,441 @@
+/**
+ * IndexedDB persistence for loaded conversations
+ * Messages are stored in pages so a 200k message thread is never cloned as
+ * one record; media blobs are saved on request and read back lazily
+ */
+
+import {
+  type ExportEntry,
+  type ExportPlatform,
+  type FolderStructure,
+  getMediaEntry,
+  getMessageAttachments,
+  type MediaFolder,
+  type Message,
+} from "@/lib/messageUtils";
+
+const DB_NAME = "message-viewer";
+const DB_VERSION = 2;
+const CONVERSATIONS_STORE = "conversations";
+const MESSAGES_STORE = "messages";
+const MEDIA_STORE = "media";
+const DIRECTORIES_STORE = "directories";
+const MESSAGES_PER_PAGE = 10_000;
+/** Media files written per transaction, bounded by count and by size */
+const MEDIA_PER_TRANSACTION = 50;
+const MEDIA_BYTES_PER_TRANSACTION = 64 * 1024 * 1024;
+
+export interface StoredConversation {
+  /** Thread id the conversation was loaded from */
+  id: string;
+  title: string;
+  participants: string[];
+  /** Missing on conversations saved before Instagram support */
+  platform?: ExportPlatform;
+  messageCount: number;
+  lastTimestamp: number | null;
+  savedAt: number;
+  mediaCount: number;
+  mediaBytes: number;
+}
+
+interface StoredMessagePage {
+  threadId: string;
+  page: number;
+  messages: Message[];
+}
+
+interface StoredMedia {
+  threadId: string;
+  kind: MediaFolder;
+  name: string;
+  blob: Blob;
+}
+
+export interface SavedDirectory {
+  id: string;
+  name: string;
+  handle: FileSystemDirectoryHandle;
+  savedAt: number;
+}
+
+export interface StorageEstimate {
+  usage: number;
+  quota: number;
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () =>
+      reject(transaction.error ?? new Error("Transaction aborted"));
+  });
+}
+
+/**
+ * Open (and create or upgrade) the app database, shared across calls
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(CONVERSATIONS_STORE)) {
+          db.createObjectStore(CONVERSATIONS_STORE, { keyPath: "id" });
+        }
+        if (!db.objectStoreNames.contains(MESSAGES_STORE)) {
+          db.createObjectStore(MESSAGES_STORE, {
+            keyPath: ["threadId", "page"],
+          });
+        }
+        if (!db.objectStoreNames.contains(MEDIA_STORE)) {
+          db.createObjectStore(MEDIA_STORE, {
+            keyPath: ["threadId", "kind", "name"],
+          });
+        }
+        // Added in version 2
+        if (!db.objectStoreNames.contains(DIRECTORIES_STORE)) {
+          db.createObjectStore(DIRECTORIES_STORE, { keyPath: "id" });
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        databasePromise = null;
+        reject(request.error);
+      };
+    });
+  }
+
+  return databasePromise;
+}
+
+/**
+ * Every compound key starting with the thread id
+ * Arrays sort after strings in IndexedDB, so `[id, []]` bounds the range
+ */
+function threadRange(threadId: string): IDBKeyRange {
+  return IDBKeyRange.bound([threadId], [threadId, []]);
+}
+
+/**
+ * List saved conversations, most recently saved first
+ */
+export async function listConversations(): Promise<StoredConversation[]> {
+  const db = await openDatabase();
+  const conversations = await requestToPromise<StoredConversation[]>(
+    db
+      .transaction(CONVERSATIONS_STORE)
+      .objectStore(CONVERSATIONS_STORE)
+      .getAll(),
+  );
+  return conversations.sort((a, b) => b.savedAt - a.savedAt);
+}
+
+/**
+ * Save a conversation's messages, replacing any earlier copy of the same thread
+ * Media saved earlier with saveConversationMedia is kept
+ */
+export async function saveConversation({
+  id,
+  title,
+  participants,
+  platform,
+  messages,
+}: {
+  id: string;
+  title: string;
+  participants: string[];
+  platform: ExportPlatform;
+  messages: Message[];
+}): Promise<StoredConversation> {
+  const db = await openDatabase();
+  const existing = await requestToPromise<StoredConversation | undefined>(
+    db
+      .transaction(CONVERSATIONS_STORE)
+      .objectStore(CONVERSATIONS_STORE)
+      .get(id),
+  );
+
+  const conversation: StoredConversation = {
+    id,
+    title,
+    participants,
+    platform,
+    messageCount: messages.length,
+    lastTimestamp: messages.at(-1)?.timestamp_ms ?? null,
+    savedAt: Date.now(),
+    mediaCount: existing?.mediaCount ?? 0,
+    mediaBytes: existing?.mediaBytes ?? 0,
+  };
+
+  const transaction = db.transaction(
+    [CONVERSATIONS_STORE, MESSAGES_STORE],
+    "readwrite",
+  );
+  const messageStore = transaction.objectStore(MESSAGES_STORE);
+  messageStore.delete(threadRange(id));
+  for (let page = 0; page * MESSAGES_PER_PAGE < messages.length; page++) {
+    const start = page * MESSAGES_PER_PAGE;
+    messageStore.put({
+      threadId: id,
+      page,
+      messages: messages.slice(start, start + MESSAGES_PER_PAGE),
+    } satisfies StoredMessagePage);
+  }
+  transaction.objectStore(CONVERSATIONS_STORE).put(conversation);
+
+  await transactionDone(transaction);
+  return conversation;
+}
+
+/**
+ * Copy the media a saved conversation references, replacing earlier copies
+ * The conversation must be saved first, see saveConversation
+ * Files are read and written a chunk at a time, each chunk in its own
+ * transaction, so a large export never sits in memory all at once
+ * @param options.onProgress - Called with the files saved so far and the total
+ */
+export async function saveConversationMedia(
+  id: string,
+  messages: Message[],
+  folderStructure: FolderStructure,
+  { onProgress }: { onProgress?: (saved: number, total: number) => void } = {},
+): Promise<StoredConversation> {
+  // Only attachments referenced by messages are copied, found via their URIs
+  const entries: { kind: MediaFolder; entry: ExportEntry }[] = [];
+  const seen = new Set<string>();
+  for (const message of messages) {
+    const items: { kind: MediaFolder; uri: string }[] = getMessageAttachments(
+      message,
+    ).map(({ kind, attachment }) => ({ kind, uri: attachment.uri }));
+    if (message.sticker) {
+      items.push({ kind: "stickers", uri: message.sticker.uri });
+    }
+
+    for (const { kind, uri } of items) {
+      const entry = await getMediaEntry(folderStructure, kind, uri);
+      if (!entry || seen.has(`${kind}/${entry.name}`)) continue;
+      seen.add(`${kind}/${entry.name}`);
+      entries.push({ kind, entry });
+    }
+  }
+
+  const db = await openDatabase();
+  const saved = await requestToPromise<StoredConversation | undefined>(
+    db
+      .transaction(CONVERSATIONS_STORE)
+      .objectStore(CONVERSATIONS_STORE)
+      .get(id),
+  );
+  if (!saved) {
+    throw new Error("Conversation is not saved. Reopen it and try again.");
+  }
+
+  // New files are written over the old ones first; media that is no longer
+  // referenced goes at the end, so a failed chunk leaves the old copy usable
+  let mediaBytes = 0;
+  let start = 0;
+  while (start < entries.length) {
+    // Read files before opening the transaction: it would auto-commit on await
+    const chunk: StoredMedia[] = [];
+    let chunkBytes = 0;
+    while (
+      start < entries.length &&
+      chunk.length < MEDIA_PER_TRANSACTION &&
+      (chunk.length === 0 || chunkBytes < MEDIA_BYTES_PER_TRANSACTION)
+    ) {
+      const { kind, entry } = entries[start++];
+      const blob = await entry.getFile();
+      chunkBytes += blob.size;
+      chunk.push({ threadId: id, kind, name: entry.name, blob });
+    }
+
+    const transaction = db.transaction(MEDIA_STORE, "readwrite");
+    const mediaStore = transaction.objectStore(MEDIA_STORE);
+    for (const item of chunk) {
+      mediaStore.put(item);
+    }
+    await transactionDone(transaction);
+
+    mediaBytes += chunkBytes;
+    onProgress?.(start, entries.length);
+  }
+
+  const transaction = db.transaction(
+    [CONVERSATIONS_STORE, MEDIA_STORE],
+    "readwrite",
+  );
+  const conversationStore = transaction.objectStore(CONVERSATIONS_STORE);
+  const mediaStore = transaction.objectStore(MEDIA_STORE);
+  const [conversation, storedKeys] = await Promise.all([
+    requestToPromise<StoredConversation | undefined>(conversationStore.get(id)),
+    requestToPromise(mediaStore.getAllKeys(threadRange(id))),
+  ]);
+  if (!conversation) {
+    transaction.abort();
+    throw new Error("Conversation is not saved. Reopen it and try again.");
+  }
+
+  for (const key of storedKeys) {
+    const [, kind, name] = key as [string, MediaFolder, string];
+    if (!seen.has(`${kind}/${name}`)) mediaStore.delete(key);
+  }
+  const updated: StoredConversation = {
+    ...conversation,
+    mediaCount: entries.length,
+    mediaBytes,
+  };
+  conversationStore.put(updated);
+  await transactionDone(transaction);
+  return updated;
+}
+
+/**
+ * Load a saved conversation without touching the filesystem
+ * Stored media blobs are disk-backed, so nothing is read until a bubble asks
+ */
+export async function loadConversation(id: string): Promise<{
+  conversation: StoredConversation;
+  messages: Message[];
+  folderStructure: FolderStructure | null;
+}> {
+  const db = await openDatabase();
+  const transaction = db.transaction([
+    CONVERSATIONS_STORE,
+    MESSAGES_STORE,
+    MEDIA_STORE,
+  ]);
+
+  const [conversation, pages, media] = await Promise.all([
+    requestToPromise<StoredConversation | undefined>(
+      transaction.objectStore(CONVERSATIONS_STORE).get(id),
+    ),
+    requestToPromise<StoredMessagePage[]>(
+      transaction.objectStore(MESSAGES_STORE).getAll(threadRange(id)),
+    ),
+    requestToPromise<StoredMedia[]>(
+      transaction.objectStore(MEDIA_STORE).getAll(threadRange(id)),
+    ),
+  ]);
+
+  if (!conversation) {
+    throw new Error("Saved conversation not found. It may have been deleted.");
+  }
+
+  const messages = pages
+    .sort((a, b) => a.page - b.page)
+    .flatMap((page) => page.messages);
+
+  let folderStructure: FolderStructure | null = null;
+  if (media.length > 0) {
+    folderStructure = {
+      audio: {},
+      files: {},
+      gifs: {},
+      photos: {},
+      videos: {},
+      stickers: {},
+    };
+    for (const item of media) {
+      folderStructure[item.kind][item.name] = storedMediaEntry(item);
+    }
+  }
+
+  return { conversation, messages, folderStructure };
+}
+
+function storedMediaEntry({ kind, name, blob }: StoredMedia): ExportEntry {
+  const file = new File([blob], name, { type: blob.type });
+  return {
+    path: `${kind}/${name}`,
+    name,
+    size: file.size,
+    lastModified: file.lastModified,
+    getFile: () => Promise.resolve(file),
+  };
+}
+
+/**
+ * Delete a saved conversation and its media
+ */
+export async function deleteConversation(id: string): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(
+    [CONVERSATIONS_STORE, MESSAGES_STORE, MEDIA_STORE],
+    "readwrite",
+  );
+  transaction.objectStore(CONVERSATIONS_STORE).delete(id);
+  transaction.objectStore(MESSAGES_STORE).delete(threadRange(id));
+  transaction.objectStore(MEDIA_STORE).delete(threadRange(id));
+  await transactionDone(transaction);
+}
+
+/**
+ * List folder handles saved by the folder access API, most recent first
+ */
+export async function listDirectoryHandles(): Promise<SavedDirectory[]> {
+  const db = await openDatabase();
+  const directories = await requestToPromise<SavedDirectory[]>(
+    db.transaction(DIRECTORIES_STORE).objectStore(DIRECTORIES_STORE).getAll(),
+  );
+  return directories.sort((a, b) => b.savedAt - a.savedAt);
+}
+
+/**
+ * Remember a folder handle so it can be reopened after a reload
+ * A handle pointing at an already saved folder replaces the old record
+ */
+export async function saveDirectoryHandle(
+  handle: FileSystemDirectoryHandle,
+): Promise<SavedDirectory> {
+  let id: string = crypto.randomUUID();
+  for (const saved of await listDirectoryHandles()) {
+    if (await saved.handle.isSameEntry(handle)) {
+      id = saved.id;
+      break;
+    }
+  }
+
+  const directory: SavedDirectory = {
+    id,
+    name: handle.name,
+    handle,
+    savedAt: Date.now(),
+  };
+
+  const db = await openDatabase();
+  const transaction = db.transaction(DIRECTORIES_STORE, "readwrite");
+  transaction.objectStore(DIRECTORIES_STORE).put(directory);
+  await transactionDone(transaction);
+  return directory;
+}
+
+export async function deleteDirectoryHandle(id: string): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(DIRECTORIES_STORE, "readwrite");
+  transaction.objectStore(DIRECTORIES_STORE).delete(id);
+  await transactionDone(transaction);
+}
+
+/**
+ * Report how much of the browser's storage quota is in use
+ * @returns null when the Storage API is unavailable
+ */
+export async function getStorageEstimate(): Promise<StorageEstimate | null> {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+}
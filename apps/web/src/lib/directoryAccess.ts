@@ -0,0 +1,147 @@
+/**
+ * File System Access API support for opening export folders
+ * Unlike a webkitdirectory input, a directory handle can be persisted and
+ * reopened after a reload, and media folders are never listed up front
+ */
+
+import {
+  type ExportDirectory,
+  type ExportEntry,
+  getMediaFolder,
+} from "@/lib/messageUtils";
+
+// The folder access API is not part of TypeScript's DOM library yet
+interface DirectoryPickerWindow {
+  showDirectoryPicker: (options?: {
+    id?: string;
+    mode?: "read" | "readwrite";
+  }) => Promise<FileSystemDirectoryHandle>;
+}
+
+interface PermissionedHandle {
+  queryPermission: (options: { mode: "read" }) => Promise<PermissionState>;
+  requestPermission: (options: { mode: "read" }) => Promise<PermissionState>;
+}
+
+interface IterableDirectoryHandle {
+  values: () => AsyncIterable<FileSystemHandle>;
+}
+
+export function isDirectoryPickerSupported(): boolean {
+  return typeof window !== "undefined" && "showDirectoryPicker" in window;
+}
+
+/**
+ * Ask the user for an export folder
+ * @returns null if the picker was dismissed
+ */
+export async function pickDirectory(): Promise<FileSystemDirectoryHandle | null> {
+  try {
+    return await (
+      window as unknown as DirectoryPickerWindow
+    ).showDirectoryPicker({ id: "messenger-export", mode: "read" });
+  } catch (error) {
+    if (error instanceof DOMException && error.name === "AbortError") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Make sure a saved handle may be read, prompting once if needed
+ * Must be called from a user gesture when a prompt is required
+ */
+export async function ensureReadPermission(
+  handle: FileSystemDirectoryHandle,
+): Promise<boolean> {
+  const permissioned = handle as unknown as PermissionedHandle;
+  if ((await permissioned.queryPermission({ mode: "read" })) === "granted") {
+    return true;
+  }
+  return (await permissioned.requestPermission({ mode: "read" })) === "granted";
+}
+
+function entryFromFileHandle(
+  handle: FileSystemFileHandle,
+  file: File,
+  path: string,
+): ExportEntry {
+  return {
+    path,
+    name: file.name,
+    size: file.size,
+    lastModified: file.lastModified,
+    // Re-read through the handle so edits on disk are picked up
+    getFile: () => handle.getFile(),
+  };
+}
+
+function directoryFromHandle(
+  handle: FileSystemDirectoryHandle,
+  path: string,
+  kind: ExportDirectory["kind"],
+): ExportDirectory {
+  return {
+    path,
+    kind,
+    getEntry: async (name) => {
+      try {
+        const fileHandle = await handle.getFileHandle(name);
+        return entryFromFileHandle(
+          fileHandle,
+          await fileHandle.getFile(),
+          `${path}/${name}`,
+        );
+      } catch (error) {
+        if (error instanceof DOMException && error.name === "NotFoundError") {
+          return null;
+        }
+        throw error;
+      }
+    },
+  };
+}
+
+/**
+ * Walk a folder handle into export entries
+ * Media folders (photos, videos, ...) are returned as lazy directories instead
+ * of being enumerated, so huge media folders cost nothing up front
+ */
+export async function readDirectoryHandle(
+  root: FileSystemDirectoryHandle,
+): Promise<{ entries: ExportEntry[]; directories: ExportDirectory[] }> {
+  const entries: ExportEntry[] = [];
+  const directories: ExportDirectory[] = [];
+
+  const walk = async (handle: FileSystemDirectoryHandle, path: string) => {
+    const iterable = handle as unknown as IterableDirectoryHandle;
+    for await (const child of iterable.values()) {
+      const childPath = `${path}/${child.name}`;
+
+      if (child.kind === "file") {
+        const fileHandle = child as FileSystemFileHandle;
+        entries.push(
+          entryFromFileHandle(
+            fileHandle,
+            await fileHandle.getFile(),
+            childPath,
+          ),
+        );
+        continue;
+      }
+
+      const directoryHandle = child as FileSystemDirectoryHandle;
+      const kind = getMediaFolder(child.name);
+      if (kind) {
+        directories.push(directoryFromHandle(directoryHandle, childPath, kind));
+      } else {
+        await walk(directoryHandle, childPath);
+      }
+    }
+  };
+
+  // Paths start with the root name, matching webkitRelativePath
+  await walk(root, root.name);
+  return { entries, directories };
+}
@@ -0,0 +1,195 @@
+/**
+ * Offline previews for shared documents
+ * PDFs and images are left to the browser; Word, Excel, PowerPoint and
+ * OpenDocument files are zip archives of XML, so their text is pulled out
+ * with the export zip reader instead of a full office renderer
+ */
+
+import { readZipEntries } from "@/lib/zipReader";
+
+export type PreviewKind =
+  | "pdf"
+  | "image"
+  | "text"
+  | "document"
+  | "spreadsheet"
+  | "presentation";
+
+const PREVIEW_EXTENSIONS: Record<PreviewKind, string[]> = {
+  pdf: ["pdf"],
+  image: ["jpg", "jpeg", "png", "gif", "webp", "bmp", "svg", "avif"],
+  text: [
+    "txt",
+    "md",
+    "csv",
+    "tsv",
+    "log",
+    "json",
+    "xml",
+    "html",
+    "htm",
+    "css",
+    "js",
+    "ts",
+    "py",
+    "java",
+    "c",
+    "cpp",
+    "h",
+    "sql",
+    "yml",
+    "yaml",
+    "ini",
+    "srt",
+    "vtt",
+  ],
+  document: ["docx", "odt"],
+  spreadsheet: ["xlsx"],
+  presentation: ["pptx"],
+};
+
+/** Text previews stop after this many bytes */
+export const MAX_TEXT_PREVIEW_BYTES = 1024 * 1024;
+
+/** Spreadsheet previews stop after this many rows */
+const MAX_SPREADSHEET_ROWS = 500;
+
+/**
+ * Pick how a file can be previewed from its name
+ * @returns null when the format has no offline preview
+ */
+export function getPreviewKind(name: string): PreviewKind | null {
+  const extension = name.split(".").pop()?.toLowerCase() ?? "";
+  for (const [kind, extensions] of Object.entries(PREVIEW_EXTENSIONS)) {
+    if (extensions.includes(extension)) return kind as PreviewKind;
+  }
+  return null;
+}
+
+async function readArchiveXml(
+  file: File,
+  paths: (path: string) => boolean,
+): Promise<{ path: string; document: Document }[]> {
+  const entries = (await readZipEntries(file)).filter((entry) =>
+    paths(entry.path),
+  );
+  const parser = new DOMParser();
+
+  return Promise.all(
+    entries.map(async (entry) => ({
+      path: entry.path,
+      document: parser.parseFromString(
+        await (await entry.getFile()).text(),
+        "application/xml",
+      ),
+    })),
+  );
+}
+
+// Office XML keeps each run of text in its own element
+function getParagraphs(
+  document: Document,
+  paragraphTag: string,
+  textTag: string,
+): string[] {
+  return Array.from(document.getElementsByTagName(paragraphTag))
+    .map((paragraph) =>
+      Array.from(paragraph.getElementsByTagName(textTag))
+        .map((text) => text.textContent ?? "")
+        .join(""),
+    )
+    .filter((text) => text.trim().length > 0);
+}
+
+/**
+ * Extract the paragraphs of a Word (.docx) or OpenDocument (.odt) file
+ */
+export async function extractDocumentText(file: File): Promise<string[]> {
+  if (file.name.toLowerCase().endsWith(".odt")) {
+    const [content] = await readArchiveXml(
+      file,
+      (path) => path === "content.xml",
+    );
+    if (!content) throw new Error("The document has no content.xml");
+    // OpenDocument paragraphs and headings hold their text directly
+    return Array.from(content.document.getElementsByTagName("*"))
+      .filter(
+        (element) =>
+          element.tagName === "text:p" || element.tagName === "text:h",
+      )
+      .map((paragraph) => paragraph.textContent ?? "")
+      .filter((text) => text.trim().length > 0);
+  }
+
+  const [body] = await readArchiveXml(
+    file,
+    (path) => path === "word/document.xml",
+  );
+  if (!body) throw new Error("The document has no word/document.xml");
+  return getParagraphs(body.document, "w:p", "w:t");
+}
+
+/** Turn a cell reference like "AB12" into a zero-based column index */
+function getColumnIndex(reference: string): number {
+  const letters = reference.match(/^[A-Z]+/)?.[0] ?? "A";
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+/**
+ * Extract the rows of the first sheet of an Excel (.xlsx) workbook
+ */
+export async function extractSpreadsheet(file: File): Promise<string[][]> {
+  const parts = await readArchiveXml(
+    file,
+    (path) =>
+      path === "xl/sharedStrings.xml" || path === "xl/worksheets/sheet1.xml",
+  );
+  const sheet = parts.find(
+    (part) => part.path === "xl/worksheets/sheet1.xml",
+  )?.document;
+  if (!sheet) throw new Error("The workbook has no first sheet");
+
+  const sharedStrings = Array.from(
+    parts
+      .find((part) => part.path === "xl/sharedStrings.xml")
+      ?.document.getElementsByTagName("si") ?? [],
+  ).map((item) =>
+    Array.from(item.getElementsByTagName("t"))
+      .map((text) => text.textContent ?? "")
+      .join(""),
+  );
+
+  return Array.from(sheet.getElementsByTagName("row"))
+    .slice(0, MAX_SPREADSHEET_ROWS)
+    .map((row) => {
+      const cells: string[] = [];
+      for (const cell of Array.from(row.getElementsByTagName("c"))) {
+        const type = cell.getAttribute("t");
+        const value =
+          type === "inlineStr"
+            ? (cell.getElementsByTagName("t")[0]?.textContent ?? "")
+            : (cell.getElementsByTagName("v")[0]?.textContent ?? "");
+        const column = getColumnIndex(cell.getAttribute("r") ?? "");
+        cells[column] = type === "s" ? (sharedStrings[+value] ?? "") : value;
+      }
+      return Array.from(cells, (cell) => cell ?? "");
+    });
+}
+
+/**
+ * Extract the text of each slide of a PowerPoint (.pptx) presentation
+ */
+export async function extractSlides(file: File): Promise<string[][]> {
+  const slides = await readArchiveXml(file, (path) =>
+    /^ppt\/slides\/slide\d+\.xml$/.test(path),
+  );
+  const slideNumber = (path: string) => Number(path.match(/\d+/)?.[0] ?? 0);
+
+  return slides
+    .sort((a, b) => slideNumber(a.path) - slideNumber(b.path))
+    .map((slide) => getParagraphs(slide.document, "a:p", "a:t"));
+}
@@ -0,0 +1,92 @@
+/**
+ * Turn a drag-and-drop payload into export entries
+ * Dropped folders are walked with the legacy entries API (webkitGetAsEntry);
+ * dropped .zip files are opened with the lazy zip reader
+ */
+
+import type { ExportEntry } from "@/lib/messageUtils";
+import { isZipFile, readZipEntries } from "@/lib/zipReader";
+
+function readFile(entry: FileSystemFileEntry): Promise<File> {
+  return new Promise((resolve, reject) => entry.file(resolve, reject));
+}
+
+/**
+ * readEntries returns at most ~100 children per call; keep reading until empty
+ */
+async function readAllChildren(
+  directory: FileSystemDirectoryEntry,
+): Promise<FileSystemEntry[]> {
+  const reader = directory.createReader();
+  const children: FileSystemEntry[] = [];
+
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) =>
+      reader.readEntries(resolve, reject),
+    );
+    if (batch.length === 0) return children;
+    children.push(...batch);
+  }
+}
+
+async function walkEntry(
+  entry: FileSystemEntry,
+  entries: ExportEntry[],
+): Promise<void> {
+  if (entry.isFile) {
+    const file = await readFile(entry as FileSystemFileEntry);
+    entries.push({
+      // fullPath starts with "/", webkitRelativePath does not
+      path: entry.fullPath.replace(/^\//, ""),
+      name: file.name,
+      size: file.size,
+      lastModified: file.lastModified,
+      getFile: () => Promise.resolve(file),
+    });
+    return;
+  }
+
+  for (const child of await readAllChildren(
+    entry as FileSystemDirectoryEntry,
+  )) {
+    await walkEntry(child, entries);
+  }
+}
+
+/**
+ * Check whether a drag carries files, for showing the drop overlay
+ */
+export function hasDraggedFiles(dataTransfer: DataTransfer): boolean {
+  return Array.from(dataTransfer.types).includes("Files");
+}
+
+/**
+ * Read every dropped folder and zip into one list of export entries
+ * Must be called synchronously from the drop handler: the items are only
+ * readable during the event
+ */
+export function readDroppedEntries(
+  dataTransfer: DataTransfer,
+): Promise<ExportEntry[]> {
+  const droppedEntries = Array.from(dataTransfer.items)
+    .filter((item) => item.kind === "file")
+    .map((item) => item.webkitGetAsEntry())
+    .filter((entry): entry is FileSystemEntry => entry !== null);
+
+  return (async () => {
+    const entries: ExportEntry[] = [];
+
+    for (const entry of droppedEntries) {
+      if (entry.isFile) {
+        const file = await readFile(entry as FileSystemFileEntry);
+        if (isZipFile(file)) {
+          entries.push(...(await readZipEntries(file)));
+          continue;
+        }
+      }
+      await walkEntry(entry, entries);
+    }
+
+    return entries;
+  })();
+}
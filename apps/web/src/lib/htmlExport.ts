@@ -0,0 +1,281 @@
+/**
+ * Parser for exports requested in Facebook's "HTML" format
+ * Each message_N.html is converted into the message_N.json shape on demand,
+ * so validation, ingestion and rendering are shared with JSON exports
+ */
+
+import type {
+  Attachment,
+  ExportEntry,
+  FacebookMessageFile,
+  MediaKind,
+  MessageReaction,
+} from "@/lib/messageUtils";
+
+type RawMessage = FacebookMessageFile["messages"][number];
+
+const HTML_MESSAGE_FILE = /message_\d+\.html$/;
+
+/** Message blocks across the layouts Facebook has used since 2020 */
+const MESSAGE_SELECTOR = "div._a6-g, div.pam._3-95";
+
+const ATTACHMENT_FIELDS = {
+  audio: "audio_files",
+  files: "files",
+  gifs: "gifs",
+  photos: "photos",
+  videos: "videos",
+} as const satisfies Record<MediaKind, keyof RawMessage>;
+
+const MONTHS = [
+  "jan",
+  "feb",
+  "mar",
+  "apr",
+  "may",
+  "jun",
+  "jul",
+  "aug",
+  "sep",
+  "oct",
+  "nov",
+  "dec",
+];
+
+export function isHtmlMessageFile(name: string): boolean {
+  return HTML_MESSAGE_FILE.test(name);
+}
+
+/**
+ * Re-encode text the way JSON exports store it (UTF-8 bytes as Latin-1
+ * characters), so fixEncoding decodes both formats identically
+ */
+function toExportEncoding(text: string): string {
+  let encoded = "";
+  for (const byte of new TextEncoder().encode(text)) {
+    encoded += String.fromCharCode(byte);
+  }
+  return encoded;
+}
+
+/**
+ * Parse dates such as "Jul 12, 2023 9:15:02 pm" or "Jul 12, 2023, 9:15 PM"
+ * @returns NaN when the (possibly localized) date is not recognized
+ */
+function parseExportDate(text: string): number {
+  const match = text
+    .trim()
+    .match(
+      /^([a-z]{3})[a-z]* (\d{1,2}),? (\d{4}),? (\d{1,2}):(\d{2})(?::(\d{2}))? ?([ap]m)?$/i,
+    );
+  if (!match) return Date.parse(text);
+
+  const [, month, day, year, hour, minute, second = "0", meridiem] = match;
+  const monthIndex = MONTHS.indexOf(month.toLowerCase());
+  if (monthIndex < 0) return Number.NaN;
+
+  let hours = Number(hour) % 12;
+  if (!meridiem) hours = Number(hour);
+  else if (meridiem.toLowerCase() === "pm") hours += 12;
+
+  return new Date(
+    Number(year),
+    monthIndex,
+    Number(day),
+    hours,
+    Number(minute),
+    Number(second),
+  ).getTime();
+}
+
+/**
+ * Media folder of an attachment, taken from the folder name in its path
+ */
+function getAttachmentKind(url: string): MediaKind | null {
+  const folder = url.split("/").at(-2);
+  return (
+    (Object.keys(ATTACHMENT_FIELDS) as MediaKind[]).find(
+      (kind) => kind === folder,
+    ) ?? null
+  );
+}
+
+/**
+ * Reactions are list items holding the emoji followed by the actor's name
+ */
+function parseReactions(block: Element): MessageReaction[] {
+  return Array.from(block.querySelectorAll("ul li"), (item) => {
+    const text = item.textContent?.trim() ?? "";
+    const [reaction = ""] = text.match(/^[^\p{L}\p{N}\s]+/u) ?? [];
+    return { reaction, actor: text.slice(reaction.length).trim() };
+  }).filter((reaction) => reaction.reaction && reaction.actor);
+}
+
+/**
+ * Text of the innermost divs, one per line; wrappers would repeat it
+ */
+function getLeafText(element: Element): string[] {
+  return Array.from(element.querySelectorAll("div"))
+    .filter((div) => !div.querySelector("div"))
+    .map((div) => div.textContent?.trim() ?? "")
+    .filter(Boolean);
+}
+
+/**
+ * Convert one message block: sender first, date last, the body in between
+ * The block is consumed, since its document is thrown away after parsing
+ */
+function parseMessageBlock(
+  block: Element,
+  previousTimestamp: number,
+): RawMessage | null {
+  const senderElement = block.firstElementChild;
+  const dateElement = block.lastElementChild;
+  if (!senderElement || !dateElement || senderElement === dateElement) {
+    return null;
+  }
+  senderElement.remove();
+  dateElement.remove();
+
+  const timestamp = parseExportDate(dateElement.textContent ?? "");
+  const message: RawMessage = {
+    sender_name: toExportEncoding(senderElement.textContent?.trim() ?? ""),
+    // Keep unrecognized dates next to their neighbours instead of at 1970
+    timestamp_ms: Number.isNaN(timestamp) ? previousTimestamp : timestamp,
+  };
+
+  const reactions = parseReactions(block);
+  if (reactions.length > 0) {
+    message.reactions = reactions.map(({ reaction, actor }) => ({
+      reaction: toExportEncoding(reaction),
+      actor: toExportEncoding(actor),
+    }));
+  }
+  for (const list of block.querySelectorAll("ul")) list.remove();
+
+  // Attachments link into the media folders; anything else is a shared link
+  for (const element of block.querySelectorAll("img, video, audio, a")) {
+    const url =
+      element.getAttribute("src") ?? element.getAttribute("href") ?? "";
+    const kind = getAttachmentKind(url);
+
+    if (url.split("/").at(-2) === "stickers_used") {
+      message.sticker = { uri: url };
+      element.remove();
+    } else if (kind) {
+      const field = ATTACHMENT_FIELDS[kind];
+      const attachments: Attachment[] = message[field] ?? [];
+      if (!attachments.some((attachment) => attachment.uri === url)) {
+        attachments.push({ uri: url });
+      }
+      message[field] = attachments;
+      element.remove();
+    } else if (element.tagName === "A" && /^https?:/.test(url)) {
+      message.share ??= { link: url };
+      // A bare URL is already in the text; a titled link becomes share_text
+      if (element.textContent && element.textContent !== url) {
+        message.share.share_text = toExportEncoding(element.textContent);
+        element.remove();
+      }
+    }
+  }
+
+  for (const lineBreak of block.querySelectorAll("br")) {
+    lineBreak.replaceWith("\n");
+  }
+  const content = getLeafText(block).join("\n");
+  if (content) message.content = toExportEncoding(content);
+
+  return message;
+}
+
+/**
+ * Parse a message_N.html file into the message_N.json structure
+ * Uses DOMParser, so this only runs on the main thread
+ */
+export async function parseHtmlMessageFile(
+  file: File,
+): Promise<FacebookMessageFile> {
+  const document = new DOMParser().parseFromString(
+    await file.text(),
+    "text/html",
+  );
+
+  const messages: RawMessage[] = [];
+  let previousTimestamp = 0;
+  for (const block of document.querySelectorAll(MESSAGE_SELECTOR)) {
+    const message = parseMessageBlock(block, previousTimestamp);
+    if (!message) continue;
+    messages.push(message);
+    previousTimestamp = message.timestamp_ms;
+  }
+
+  // "Participants: A, B and C" in English exports; senders otherwise
+  const participantsText = getLeafText(document.body).find((text) =>
+    /^Participants:/.test(text),
+  );
+  const participants = participantsText
+    ? participantsText
+        .replace(/^Participants:\s*/, "")
+        .split(/,\s*|\s+and\s+/)
+        .filter(Boolean)
+    : Array.from(new Set(messages.map((message) => message.sender_name)));
+
+  const title = document.title.trim();
+  return {
+    messages,
+    participants: participants.map((name) => ({
+      name: participantsText ? toExportEncoding(name) : name,
+    })),
+    title: title ? toExportEncoding(title) : undefined,
+  };
+}
+
+/**
+ * Present a message_N.html entry as a lazily converted message_N.json entry
+ * The conversion is kept, so the conversation list and ingestion parse each
+ * file once
+ */
+function toJsonMessageEntry(entry: ExportEntry): ExportEntry {
+  const name = entry.name.replace(/\.html$/, ".json");
+  let converted: Promise<File> | null = null;
+
+  const convert = async () => {
+    const data = await parseHtmlMessageFile(await entry.getFile());
+    return new File([JSON.stringify(data)], name, {
+      type: "application/json",
+      lastModified: entry.lastModified,
+    });
+  };
+
+  return {
+    path: entry.path.replace(/\.html$/, ".json"),
+    name,
+    size: entry.size,
+    lastModified: entry.lastModified,
+    getFile: () => {
+      if (!converted) {
+        converted = convert();
+        // Let a failed conversion be retried
+        converted.catch(() => {
+          converted = null;
+        });
+      }
+      return converted;
+    },
+  };
+}
+
+/**
+ * Replace message_N.html entries with converted JSON entries
+ * HTML files are left alone where the JSON file exists alongside them
+ */
+export function withHtmlMessageFiles(entries: ExportEntry[]): ExportEntry[] {
+  const paths = new Set(entries.map((entry) => entry.path));
+  return entries.map((entry) =>
+    isHtmlMessageFile(entry.name) &&
+    !paths.has(entry.path.replace(/\.html$/, ".json"))
+      ? toJsonMessageEntry(entry)
+      : entry,
+  );
+}
@@ -0,0 +1,193 @@
+/**
+ * Incremental JSON parser for message_N.json files
+ * Scans text as it arrives and parses each element of one top-level array on
+ * its own, so a 10MB+ file never has to be held as a single string
+ */
+
+export interface JsonStreamHandlers {
+  /** Called with each element of the streamed array, in order */
+  onItem: (item: unknown) => void;
+  /** Called with every other top-level property once its value is complete */
+  onProperty?: (key: string, value: unknown) => void;
+}
+
+type CaptureMode = "key" | "value" | "item";
+
+const QUOTE = 0x22;
+const BACKSLASH = 0x5c;
+const COLON = 0x3a;
+const COMMA = 0x2c;
+const OPEN_BRACE = 0x7b;
+const CLOSE_BRACE = 0x7d;
+const OPEN_BRACKET = 0x5b;
+const CLOSE_BRACKET = 0x5d;
+
+function isWhitespace(code: number): boolean {
+  return code === 0x20 || code === 0x0a || code === 0x0d || code === 0x09;
+}
+
+export class JsonArrayStreamParser {
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private expectingValue = false;
+  private inTargetArray = false;
+  private finished = false;
+  private currentKey: string | null = null;
+  private captureMode: CaptureMode | null = null;
+  /** Text of the current capture carried over from earlier chunks */
+  private captured = "";
+
+  /**
+   * @param arrayKey - Top-level property whose array elements are streamed
+   * @param handlers - Callbacks for streamed items and other properties
+   */
+  constructor(
+    private readonly arrayKey: string,
+    private readonly handlers: JsonStreamHandlers,
+  ) {}
+
+  write(chunk: string): void {
+    let captureStart = 0;
+
+    for (let i = 0; i < chunk.length; i++) {
+      const code = chunk.charCodeAt(i);
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (code === BACKSLASH) {
+          this.escaped = true;
+        } else if (code === QUOTE) {
+          this.inString = false;
+          // Keys and string values at the capture's own depth end here
+          if (
+            this.captureMode === "key" ||
+            (this.captureMode !== null && this.depth === this.captureDepth())
+          ) {
+            this.finishCapture(chunk, captureStart, i + 1);
+          }
+        }
+        continue;
+      }
+
+      if (isWhitespace(code)) continue;
+
+      if (this.captureMode !== null) {
+        const baseDepth = this.captureDepth();
+        if (code === QUOTE) {
+          this.inString = true;
+        } else if (code === OPEN_BRACE || code === OPEN_BRACKET) {
+          this.depth++;
+        } else if (code === CLOSE_BRACE || code === CLOSE_BRACKET) {
+          if (this.depth === baseDepth) {
+            // A bare primitive was closed by its parent; reprocess the bracket
+            this.finishCapture(chunk, captureStart, i);
+            i--;
+          } else {
+            this.depth--;
+            if (this.depth === baseDepth) {
+              this.finishCapture(chunk, captureStart, i + 1);
+            }
+          }
+        } else if (code === COMMA && this.depth === baseDepth) {
+          this.finishCapture(chunk, captureStart, i);
+          i--;
+        }
+        continue;
+      }
+
+      if (this.finished) {
+        throw new Error("Unexpected data after end of JSON");
+      }
+
+      if (this.depth === 0) {
+        if (code !== OPEN_BRACE) {
+          throw new Error("Expected a JSON object");
+        }
+        this.depth = 1;
+        continue;
+      }
+
+      if (this.inTargetArray) {
+        if (code === COMMA) continue;
+        if (code === CLOSE_BRACKET) {
+          this.inTargetArray = false;
+          this.depth = 1;
+          continue;
+        }
+        this.startCapture("item", code);
+        captureStart = i;
+        continue;
+      }
+
+      // Inside the top-level object
+      if (code === CLOSE_BRACE) {
+        this.depth = 0;
+        this.finished = true;
+      } else if (code === COLON) {
+        this.expectingValue = true;
+      } else if (code === COMMA) {
+        this.expectingValue = false;
+      } else if (!this.expectingValue && code === QUOTE) {
+        this.startCapture("key", code);
+        captureStart = i;
+      } else if (this.expectingValue) {
+        this.expectingValue = false;
+        if (code === OPEN_BRACKET && this.currentKey === this.arrayKey) {
+          this.inTargetArray = true;
+          this.depth = 2;
+        } else {
+          this.startCapture("value", code);
+          captureStart = i;
+        }
+      } else {
+        throw new Error("Malformed JSON: expected a property name");
+      }
+    }
+
+    if (this.captureMode !== null) {
+      this.captured += chunk.slice(captureStart);
+    }
+  }
+
+  /**
+   * Signal the end of input
+   * @throws Error if the document is incomplete
+   */
+  end(): void {
+    if (!this.finished || this.captureMode !== null || this.inString) {
+      throw new Error("Unexpected end of JSON input");
+    }
+  }
+
+  private captureDepth(): number {
+    return this.captureMode === "item" ? 2 : 1;
+  }
+
+  private startCapture(mode: CaptureMode, code: number): void {
+    this.captureMode = mode;
+    this.captured = "";
+    if (code === QUOTE) {
+      this.inString = true;
+    } else if (code === OPEN_BRACE || code === OPEN_BRACKET) {
+      this.depth++;
+    }
+  }
+
+  private finishCapture(chunk: string, start: number, end: number): void {
+    const text = this.captured + chunk.slice(start, end);
+    const mode = this.captureMode;
+    this.captured = "";
+    this.captureMode = null;
+
+    const value: unknown = JSON.parse(text);
+    if (mode === "key") {
+      this.currentKey = value as string;
+    } else if (mode === "item") {
+      this.handlers.onItem(value);
+    } else if (this.currentKey !== null) {
+      this.handlers.onProperty?.(this.currentKey, value);
+    }
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Dedicated worker that decodes images and scales them down to thumbnails
+ */
+
+import type {
+  ThumbnailRequest,
+  ThumbnailResponse,
+} from "@/lib/mediaThumbnails";
+
+function post(response: ThumbnailResponse) {
+  postMessage(response);
+}
+
+/**
+ * Center-crop to a square and scale down to the requested size
+ */
+async function createThumbnail(source: Blob, size: number): Promise<Blob> {
+  const bitmap = await createImageBitmap(source);
+  try {
+    const side = Math.min(bitmap.width, bitmap.height);
+    const target = Math.min(size, side);
+    const canvas = new OffscreenCanvas(target, target);
+    const context = canvas.getContext("2d");
+    if (!context) throw new Error("2D canvas is not available in workers");
+
+    context.drawImage(
+      bitmap,
+      (bitmap.width - side) / 2,
+      (bitmap.height - side) / 2,
+      side,
+      side,
+      0,
+      0,
+      target,
+      target,
+    );
+    return await canvas.convertToBlob({ type: "image/jpeg", quality: 0.75 });
+  } finally {
+    bitmap.close();
+  }
+}
+
+self.onmessage = async (event: MessageEvent<ThumbnailRequest>) => {
+  const { id, source, size } = event.data;
+  try {
+    post({ type: "done", id, thumbnail: await createThumbnail(source, size) });
+  } catch (error) {
+    post({
+      type: "error",
+      id,
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
@@ -0,0 +1,200 @@
+/**
+ * Main-thread side of thumbnail generation for the media gallery
+ * Images are decoded and scaled in mediaThumbnail.worker.ts; videos need a
+ * <video> element, so only their poster frame is captured here first
+ * Results are cached per export entry, so scrolling back up is instant
+ * Requests wait in a newest-first queue, so fast scrolling reaches the cells
+ * on screen first and cells that unmount drop their request
+ */
+
+import type { ExportEntry, VisualMediaKind } from "@/lib/messageUtils";
+import { extractVideoPoster } from "@/lib/videoPoster";
+
+export interface ThumbnailRequest {
+  id: number;
+  source: Blob;
+  /** Edge length of the square thumbnail, in pixels */
+  size: number;
+}
+
+export type ThumbnailResponse =
+  | { type: "done"; id: number; thumbnail: Blob }
+  | { type: "error"; id: number; message: string };
+
+const DEFAULT_THUMBNAIL_SIZE = 256;
+/** Thumbnails created at once; video posters are captured on this thread */
+const MAX_RUNNING_THUMBNAILS = 2;
+
+/** Thumbnails started or done */
+const thumbnailCache = new WeakMap<ExportEntry, Promise<Blob>>();
+
+interface QueuedThumbnail {
+  entry: ExportEntry;
+  kind: VisualMediaKind;
+  size: number;
+  /** Callers still waiting; the request is dropped once all of them abort */
+  waiting: number;
+  promise: Promise<Blob>;
+  resolve: (thumbnail: Blob) => void;
+  reject: (error: unknown) => void;
+}
+
+/** Requests not started yet, newest last */
+const queue: QueuedThumbnail[] = [];
+const queued = new Map<ExportEntry, QueuedThumbnail>();
+let running = 0;
+
+interface PendingThumbnail {
+  resolve: (thumbnail: Blob) => void;
+  reject: (error: Error) => void;
+}
+
+const pending = new Map<number, PendingThumbnail>();
+let nextId = 0;
+let worker: Worker | null = null;
+
+// One worker is shared by every thumbnail and kept for the page's lifetime
+function getWorker(): Worker {
+  if (worker) return worker;
+
+  worker = new Worker(new URL("./mediaThumbnail.worker.ts", import.meta.url), {
+    type: "module",
+  });
+
+  worker.onmessage = (event: MessageEvent<ThumbnailResponse>) => {
+    const response = event.data;
+    const request = pending.get(response.id);
+    if (!request) return;
+    pending.delete(response.id);
+
+    if (response.type === "done") {
+      request.resolve(response.thumbnail);
+    } else {
+      request.reject(new Error(response.message));
+    }
+  };
+
+  worker.onerror = (event) => {
+    const error = new Error(event.message || "Thumbnail worker crashed");
+    for (const request of pending.values()) request.reject(error);
+    pending.clear();
+    worker?.terminate();
+    worker = null;
+  };
+
+  return worker;
+}
+
+function scaleInWorker(source: Blob, size: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const id = nextId++;
+    pending.set(id, { resolve, reject });
+    getWorker().postMessage({ id, source, size } satisfies ThumbnailRequest);
+  });
+}
+
+async function createThumbnail(
+  entry: ExportEntry,
+  kind: VisualMediaKind,
+  size: number,
+): Promise<Blob> {
+  const file = await entry.getFile();
+  if (kind !== "videos") return scaleInWorker(file, size);
+
+  const url = URL.createObjectURL(file);
+  try {
+    const { poster } = await extractVideoPoster(url);
+    if (!poster) throw new Error("The video has no picture");
+    return scaleInWorker(poster, size);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+function runQueue() {
+  while (running < MAX_RUNNING_THUMBNAILS && queue.length > 0) {
+    const job = queue.pop() as QueuedThumbnail;
+    queued.delete(job.entry);
+    thumbnailCache.set(job.entry, job.promise);
+    running++;
+    createThumbnail(job.entry, job.kind, job.size)
+      .then(job.resolve, (error) => {
+        // Let a failed thumbnail be retried later
+        thumbnailCache.delete(job.entry);
+        job.reject(error);
+      })
+      .finally(() => {
+        running--;
+        runQueue();
+      });
+  }
+}
+
+function enqueueThumbnail(
+  entry: ExportEntry,
+  kind: VisualMediaKind,
+  size: number,
+): QueuedThumbnail {
+  let job = queued.get(entry);
+  if (job) {
+    // Asked for again: it is back on screen, so move it to the front
+    queue.splice(queue.indexOf(job), 1);
+  } else {
+    let resolve: QueuedThumbnail["resolve"] = () => {};
+    let reject: QueuedThumbnail["reject"] = () => {};
+    const promise = new Promise<Blob>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    job = { entry, kind, size, waiting: 0, promise, resolve, reject };
+    queued.set(entry, job);
+  }
+  queue.push(job);
+  job.waiting++;
+  return job;
+}
+
+/**
+ * Get a square JPEG thumbnail of a photo, GIF (first frame) or video
+ * @param options.signal - Aborting drops the request if it has not started
+ *   and no one else is waiting for it, and rejects with AbortError
+ * @throws Error when the browser cannot decode the file
+ */
+export function getThumbnail(
+  entry: ExportEntry,
+  kind: VisualMediaKind,
+  {
+    size = DEFAULT_THUMBNAIL_SIZE,
+    signal,
+  }: { size?: number; signal?: AbortSignal } = {},
+): Promise<Blob> {
+  const cached = thumbnailCache.get(entry);
+  if (cached) return cached;
+  if (signal?.aborted) return Promise.reject(signal.reason);
+
+  const job = enqueueThumbnail(entry, kind, size);
+  runQueue();
+  if (!signal) return job.promise;
+
+  return new Promise((resolve, reject) => {
+    const handleAbort = () => {
+      job.waiting--;
+      if (job.waiting === 0 && queued.get(entry) === job) {
+        queued.delete(entry);
+        queue.splice(queue.indexOf(job), 1);
+      }
+      reject(signal.reason);
+    };
+    signal.addEventListener("abort", handleAbort, { once: true });
+    job.promise.then(
+      (thumbnail) => {
+        signal.removeEventListener("abort", handleAbort);
+        resolve(thumbnail);
+      },
+      (error) => {
+        signal.removeEventListener("abort", handleAbort);
+        reject(error);
+      },
+    );
+  });
+}
@@ -0,0 +1,94 @@
+/**
+ * Recognize system messages (group renames, people joining or leaving,
+ * nicknames, themes, missed calls) that exports store as ordinary content
+ * Patterns cover the English and Vietnamese export wording
+ */
+
+import type { Message, MessageEventKind } from "@/lib/messageUtils";
+
+interface EventPattern {
+  kind: MessageEventKind;
+  pattern: RegExp;
+}
+
+/**
+ * Matched against the content after the actor's name ("You" or the sender),
+ * so a message merely quoting this wording is not mistaken for an event
+ */
+const ACTOR_PATTERNS: EventPattern[] = [
+  // English
+  { kind: "group_name", pattern: /^ named the group .+$/ },
+  { kind: "group_name", pattern: /^ changed the group name to .+$/ },
+  { kind: "group_name", pattern: /^ removed the group name\.?$/ },
+  { kind: "member_added", pattern: /^ added .+ to the group\.?$/ },
+  { kind: "member_left", pattern: /^ left the group\.?$/ },
+  { kind: "member_removed", pattern: /^ removed .+ from the group\.?$/ },
+  {
+    kind: "nickname",
+    pattern:
+      /^ set (the|your|his own|her own|their own) nickname( for .+)? to .+$/,
+  },
+  {
+    kind: "nickname",
+    pattern:
+      /^ cleared (the|your|his own|her own|their own) nickname( for .+)?\.?$/,
+  },
+  { kind: "theme", pattern: /^ changed the (chat )?theme( to .+)?\.?$/ },
+  { kind: "group_photo", pattern: /^ changed the group photo\.?$/ },
+  {
+    kind: "emoji",
+    pattern: /^ (set|changed) the (quick reaction|emoji) to .+$/,
+  },
+  // Vietnamese
+  {
+    kind: "group_name",
+    pattern: /^ đã (đặt tên nhóm là|đổi tên nhóm thành) .+$/,
+  },
+  { kind: "member_added", pattern: /^ đã thêm .+ vào nhóm\.?$/ },
+  { kind: "member_left", pattern: /^ đã rời (khỏi )?nhóm\.?$/ },
+  { kind: "member_removed", pattern: /^ đã (xóa|xoá) .+ khỏi nhóm\.?$/ },
+  { kind: "nickname", pattern: /^ đã đặt biệt danh (của|cho) .+ là .+$/ },
+  { kind: "nickname", pattern: /^ đã (xóa|xoá) biệt danh (của|cho) .+$/ },
+  { kind: "theme", pattern: /^ đã đổi chủ đề( thành .+)?\.?$/ },
+  { kind: "group_photo", pattern: /^ đã đổi ảnh nhóm\.?$/ },
+  {
+    kind: "emoji",
+    pattern: /^ đã (đặt|đổi) biểu tượng cảm xúc (nhanh )?thành .+$/,
+  },
+];
+
+/** Missed calls name the caller or callee anywhere in the sentence */
+const MISSED_CALL_PATTERN = /(missed (a|your) (video )?call|bỏ lỡ cuộc gọi)/i;
+
+const SELF_ACTORS = ["You", "Bạn"];
+
+/**
+ * Classify a message as a system event, or undefined for ordinary messages
+ * @param message - An enriched message; content must already be decoded
+ */
+export function classifyMessageEvent(
+  message: Message,
+): MessageEventKind | undefined {
+  if (message.type === "Subscribe") return "member_added";
+  if (message.type === "Unsubscribe") {
+    return message.content && /removed|đã (xóa|xoá)/.test(message.content)
+      ? "member_removed"
+      : "member_left";
+  }
+  if (message.missed) return "missed_call";
+
+  const content = message.content?.trim().normalize("NFC");
+  if (!content || message.share || message.sticker) return undefined;
+
+  if (message.type === "Call" || message.call_duration !== undefined) {
+    return MISSED_CALL_PATTERN.test(content) ? "missed_call" : undefined;
+  }
+
+  const actor = [message.sender_name, ...SELF_ACTORS].find((name) =>
+    content.startsWith(name),
+  );
+  if (!actor) return undefined;
+
+  const rest = content.slice(actor.length);
+  return ACTOR_PATTERNS.find(({ pattern }) => pattern.test(rest))?.kind;
+}
@@ -0,0 +1,221 @@
+/**
+ * Main-thread side of message ingestion
+ * Parsing and enrichment run in messageIngest.worker.ts; results come back as
+ * transferred, JSON-encoded batches so no single step blocks the UI
+ * Conversation list summaries are read in the same worker
+ */
+
+import {
+  type ExportEntry,
+  type IngestProgress,
+  type Message,
+  mergeSortedMessages,
+  type ThreadSource,
+  type ThreadStats,
+  type ThreadSummary,
+} from "@/lib/messageUtils";
+
+export type IngestRequest =
+  /** Message files of each export of the conversation */
+  | { type: "ingest"; sources: File[][] }
+  /** Message files of each thread to summarize */
+  | { type: "summarize"; threads: File[][] };
+
+export type IngestResponse =
+  | { type: "progress"; progress: IngestProgress }
+  /** One per thread, in request order */
+  | { type: "summary"; stats: ThreadStats }
+  | { type: "batch"; buffer: ArrayBuffer }
+  | { type: "update"; buffer: ArrayBuffer }
+  | { type: "done"; total: number; duplicatesDropped: number }
+  | { type: "error"; message: string };
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "AbortError";
+}
+
+function createIngestWorker(): Worker {
+  return new Worker(new URL("./messageIngest.worker.ts", import.meta.url), {
+    type: "module",
+  });
+}
+
+/**
+ * Resolve message entries to File objects, the only kind a worker accepts
+ * HTML exports are converted in getFile with DOMParser, which workers lack,
+ * so files are resolved one per task
+ */
+async function resolveMessageFiles(
+  sources: ExportEntry[][],
+  signal?: AbortSignal,
+): Promise<File[][]> {
+  const files: File[][] = [];
+  for (const entries of sources) {
+    const sourceFiles: File[] = [];
+    for (const entry of entries) {
+      if (!/message_\d+\.json$/.test(entry.name)) continue;
+      sourceFiles.push(await entry.getFile());
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      signal?.throwIfAborted();
+    }
+    files.push(sourceFiles);
+  }
+  return files;
+}
+
+/**
+ * Summarize every thread in a selection off the main thread, most recently
+ * active first
+ * @param onProgress - Optional callback for progress updates
+ */
+export async function summarizeThreads(
+  threads: ThreadSource[],
+  onProgress?: (current: number, total: number) => void,
+): Promise<ThreadSummary[]> {
+  if (threads.length === 0) return [];
+  const files = await resolveMessageFiles(
+    threads.map((thread) => thread.entries),
+  );
+
+  return new Promise((resolve, reject) => {
+    const worker = createIngestWorker();
+    const summaries: ThreadSummary[] = [];
+
+    worker.onmessage = (event: MessageEvent<IngestResponse>) => {
+      const response = event.data;
+      if (response.type === "summary") {
+        const thread = threads[summaries.length];
+        summaries.push({
+          ...response.stats,
+          thread,
+          title: response.stats.title || thread.folder,
+        });
+        onProgress?.(summaries.length, threads.length);
+        if (summaries.length === threads.length) {
+          worker.terminate();
+          resolve(
+            summaries.sort(
+              (a, b) => (b.lastTimestamp ?? 0) - (a.lastTimestamp ?? 0),
+            ),
+          );
+        }
+      } else if (response.type === "error") {
+        worker.terminate();
+        reject(new Error(response.message));
+      }
+    };
+
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || "Message worker crashed"));
+    };
+
+    worker.postMessage({
+      type: "summarize",
+      threads: files,
+    } satisfies IngestRequest);
+  });
+}
+
+export interface IngestResult {
+  messages: Message[];
+  /** Messages found in more than one export and dropped */
+  duplicatesDropped: number;
+}
+
+/**
+ * Read, parse, enrich and sort a thread's message files off the main thread
+ * @param sources - Entries of each export of the thread; only message_*.json
+ *   files are read. Several exports are merged and deduplicated
+ * @param options.onProgress - Optional callback for per-file and per-message progress
+ * @param options.onMessages - Optional callback with the sorted messages loaded
+ *   so far, so the first page can render before the last file finishes
+ * @param options.signal - Aborting terminates the worker and rejects with AbortError
+ */
+export async function ingestMessageFiles(
+  sources: ExportEntry[][],
+  {
+    onProgress,
+    onMessages,
+    signal,
+  }: {
+    onProgress?: (progress: IngestProgress) => void;
+    onMessages?: (messages: Message[]) => void;
+    signal?: AbortSignal;
+  } = {},
+): Promise<IngestResult> {
+  const files = await resolveMessageFiles(sources, signal);
+  signal?.throwIfAborted();
+
+  return new Promise((resolve, reject) => {
+    const worker = createIngestWorker();
+    const decoder = new TextDecoder();
+    let messages: Message[] = [];
+
+    const cleanup = () => {
+      worker.terminate();
+      signal?.removeEventListener("abort", handleAbort);
+    };
+
+    function handleAbort() {
+      cleanup();
+      reject(
+        signal?.reason ?? new DOMException("Loading cancelled", "AbortError"),
+      );
+    }
+
+    signal?.addEventListener("abort", handleAbort, { once: true });
+
+    worker.onmessage = (event: MessageEvent<IngestResponse>) => {
+      const response = event.data;
+      switch (response.type) {
+        case "progress":
+          onProgress?.(response.progress);
+          break;
+        case "batch": {
+          const batch = JSON.parse(
+            decoder.decode(response.buffer),
+          ) as Message[];
+          batch.sort((a, b) => a.timestamp_ms - b.timestamp_ms);
+          messages = mergeSortedMessages(messages, batch);
+          onMessages?.(messages);
+          break;
+        }
+        case "update": {
+          // Reactions edited in a later export, for messages already shown
+          const updates = new Map(
+            (JSON.parse(decoder.decode(response.buffer)) as Message[]).map(
+              (message) => [message.id, message],
+            ),
+          );
+          messages = messages.map(
+            (message) => updates.get(message.id) ?? message,
+          );
+          onMessages?.(messages);
+          break;
+        }
+        case "done":
+          cleanup();
+          resolve({
+            messages,
+            duplicatesDropped: response.duplicatesDropped,
+          });
+          break;
+        case "error":
+          cleanup();
+          reject(new Error(response.message));
+          break;
+      }
+    };
+
+    worker.onerror = (event) => {
+      cleanup();
+      reject(new Error(event.message || "Message worker crashed"));
+    };
+
+    worker.postMessage({
+      type: "ingest",
+      sources: files,
+    } satisfies IngestRequest);
+  });
+}
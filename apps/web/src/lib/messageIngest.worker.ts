@@ -0,0 +1,77 @@
+/**
+ * Dedicated worker that runs processMessageFiles and the conversation list
+ * summaries away from the UI thread
+ */
+
+import type { IngestRequest, IngestResponse } from "@/lib/messageIngest";
+import {
+  entriesFromFileList,
+  type Message,
+  processMessageFiles,
+  summarizeMessageFiles,
+} from "@/lib/messageUtils";
+
+const BATCH_SIZE = 5_000;
+const encoder = new TextEncoder();
+
+function post(response: IngestResponse, transfer: Transferable[] = []) {
+  postMessage(response, { transfer });
+}
+
+// Encoded batches are transferred instead of structured-cloned
+function postBatch(messages: Message[], type: "batch" | "update" = "batch") {
+  const { buffer } = encoder.encode(JSON.stringify(messages));
+  post({ type, buffer }, [buffer]);
+}
+
+async function ingest(sources: File[][]) {
+  let pending: Message[] = [];
+
+  const { messages, duplicatesDropped, updatedMessages } =
+    await processMessageFiles(
+      sources.map((files) => entriesFromFileList(files)),
+      {
+        onProgress: (progress) => {
+          post({ type: "progress", progress });
+          // Flush at the end of every file so the first page shows early
+          if (progress.bytesRead === progress.fileSize && pending.length > 0) {
+            postBatch(pending);
+            pending = [];
+          }
+        },
+        onBatch: (batch) => {
+          pending.push(...batch);
+          if (pending.length >= BATCH_SIZE) {
+            postBatch(pending);
+            pending = [];
+          }
+        },
+      },
+    );
+
+  if (pending.length > 0) postBatch(pending);
+  if (updatedMessages.length > 0) postBatch(updatedMessages, "update");
+  post({ type: "done", total: messages.length, duplicatesDropped });
+}
+
+async function summarize(threads: File[][]) {
+  for (const files of threads) {
+    post({ type: "summary", stats: await summarizeMessageFiles(files) });
+  }
+}
+
+self.onmessage = async (event: MessageEvent<IngestRequest>) => {
+  const request = event.data;
+  try {
+    if (request.type === "ingest") {
+      await ingest(request.sources);
+    } else {
+      await summarize(request.threads);
+    }
+  } catch (error) {
+    post({
+      type: "error",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
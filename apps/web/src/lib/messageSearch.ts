@@ -0,0 +1,114 @@
+/**
+ * Main-thread side of message search
+ * The inverted index is built and queried in messageSearch.worker.ts, so
+ * neither indexing 200k messages nor a broad query blocks typing
+ */
+
+import type { Message } from "@/lib/messageUtils";
+import type { MatchOptions } from "@/lib/searchIndex";
+import type { QueryNode } from "@/lib/searchQuery";
+
+export type SearchOptions = MatchOptions;
+
+export type MessageSearchRequest =
+  | { type: "index"; buffer: ArrayBuffer }
+  | { type: "search"; id: number; query: QueryNode; options: SearchOptions };
+
+export type MessageSearchResponse =
+  | { type: "ready"; tokenCount: number }
+  | { type: "results"; id: number; hits: Uint32Array }
+  | { type: "error"; id: number | null; message: string };
+
+export interface MessageSearch {
+  /** Resolves once the index is built */
+  ready: Promise<void>;
+  /**
+   * Find every matching message
+   * @returns Ascending indexes into the messages the search was created with
+   */
+  search: (query: QueryNode, options: SearchOptions) => Promise<Uint32Array>;
+  /** Stop the worker; pending searches reject */
+  dispose: () => void;
+}
+
+interface PendingSearch {
+  resolve: (hits: Uint32Array) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Index a conversation in a worker for repeated searches
+ */
+export function createMessageSearch(messages: Message[]): MessageSearch {
+  const worker = new Worker(
+    new URL("./messageSearch.worker.ts", import.meta.url),
+    { type: "module" },
+  );
+  const pending = new Map<number, PendingSearch>();
+  let nextId = 0;
+
+  const failAll = (error: Error) => {
+    for (const request of pending.values()) request.reject(error);
+    pending.clear();
+  };
+
+  const ready = new Promise<void>((resolve, reject) => {
+    worker.onmessage = (event: MessageEvent<MessageSearchResponse>) => {
+      const response = event.data;
+      switch (response.type) {
+        case "ready":
+          resolve();
+          break;
+        case "results":
+          pending.get(response.id)?.resolve(response.hits);
+          pending.delete(response.id);
+          break;
+        case "error": {
+          const error = new Error(response.message);
+          if (response.id === null) {
+            reject(error);
+          } else {
+            pending.get(response.id)?.reject(error);
+            pending.delete(response.id);
+          }
+          break;
+        }
+      }
+    };
+
+    worker.onerror = (event) => {
+      const error = new Error(event.message || "Search worker crashed");
+      reject(error);
+      failAll(error);
+    };
+  });
+  // Failures surface through search(); avoid an unhandled rejection
+  ready.catch(() => {});
+
+  // Encoded once and transferred instead of structured-cloned
+  const { buffer } = new TextEncoder().encode(JSON.stringify(messages));
+  worker.postMessage({ type: "index", buffer } satisfies MessageSearchRequest, [
+    buffer,
+  ]);
+
+  return {
+    ready,
+    search: async (query, options) => {
+      await ready;
+      return new Promise((resolve, reject) => {
+        const id = nextId++;
+        pending.set(id, { resolve, reject });
+        worker.postMessage({
+          type: "search",
+          id,
+          query,
+          options,
+        } satisfies MessageSearchRequest);
+      });
+    },
+    dispose: () => {
+      worker.terminate();
+      failAll(new DOMException("Search closed", "AbortError"));
+    },
+  };
+}
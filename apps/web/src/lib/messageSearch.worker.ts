@@ -0,0 +1,51 @@
+/**
+ * Dedicated worker that holds a conversation's search index and answers
+ * queries against it
+ */
+
+import type {
+  MessageSearchRequest,
+  MessageSearchResponse,
+} from "@/lib/messageSearch";
+import type { Message } from "@/lib/messageUtils";
+import { buildSearchIndex, type SearchIndex } from "@/lib/searchIndex";
+import { executeQuery } from "@/lib/searchQuery";
+
+const decoder = new TextDecoder();
+let messages: Message[] = [];
+let index: SearchIndex | null = null;
+
+function post(response: MessageSearchResponse, transfer: Transferable[] = []) {
+  postMessage(response, { transfer });
+}
+
+self.onmessage = (event: MessageEvent<MessageSearchRequest>) => {
+  const request = event.data;
+  try {
+    switch (request.type) {
+      case "index": {
+        messages = JSON.parse(decoder.decode(request.buffer)) as Message[];
+        index = buildSearchIndex(messages);
+        post({ type: "ready", tokenCount: index.exact.tokens.length });
+        break;
+      }
+      case "search": {
+        if (!index) throw new Error("Search index is not built yet");
+        const hits = executeQuery(
+          index,
+          messages,
+          request.query,
+          request.options,
+        );
+        post({ type: "results", id: request.id, hits }, [hits.buffer]);
+        break;
+      }
+    }
+  } catch (error) {
+    post({
+      type: "error",
+      id: request.type === "search" ? request.id : null,
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
@@ -2,25 +2,91 @@
  * Utility functions for processing Facebook Messenger archive data
  */
 
+import { withHtmlMessageFiles } from "@/lib/htmlExport";
+import { JsonArrayStreamParser } from "@/lib/jsonStream";
+import { classifyMessageEvent } from "@/lib/messageEvents";
+
 export type Attachment = {
   uri: string;
   creation_timestamp?: number;
+  /** Facebook CDN copy of a photo, often expired */
+  backup_uri?: string;
+};
+
+export type MessageSticker = {
+  uri: string;
 };
 
 export type MessageReaction = {
   reaction: string;
   actor: string;
+  /** Seconds since epoch; Instagram only */
+  timestamp?: number;
 };
 
 export type MessageSharable = {
   link?: string;
   share_text?: string;
+  /** Author of a shared post or reel; Instagram only */
+  original_content_owner?: string;
 };
 
 export type MessageParticipant = {
   name: string;
 };
 
+/** Original message a "bumped" reply refers to */
+export type MessageBumpedMetadata = {
+  bumped_message?: string;
+  is_bumped?: boolean;
+};
+
+export type MessagePollOption = {
+  option: string;
+  voters?: string[];
+};
+
+export type MessagePoll = {
+  question: string;
+  options: MessagePollOption[];
+};
+
+export type MessagePayment = {
+  amount: number | string;
+  currency?: string;
+  /** Name of the person who received the money */
+  receiver?: string;
+  status?: string;
+};
+
+/**
+ * Message types used by Messenger exports; Subscribe and Unsubscribe list the
+ * added or removed people in `users`
+ */
+export type MessageType =
+  | "Generic"
+  | "Share"
+  | "Call"
+  | "Subscribe"
+  | "Unsubscribe"
+  | "Payment"
+  | (string & {});
+
+/**
+ * System messages shown as timeline rows instead of chat bubbles
+ * See messageEvents.ts for how they are recognized
+ */
+export type MessageEventKind =
+  | "group_name"
+  | "member_added"
+  | "member_left"
+  | "member_removed"
+  | "nickname"
+  | "theme"
+  | "group_photo"
+  | "emoji"
+  | "missed_call";
+
 export interface Message {
   id: string;
   sender_name: string;
@@ -33,11 +99,39 @@ export interface Message {
   gifs?: Attachment[];
   reactions?: MessageReaction[];
   share?: MessageSharable;
+  sticker?: MessageSticker;
+  type?: MessageType;
   call_duration?: number;
+  /** Set on calls that were not picked up */
+  missed?: boolean;
   is_unsent?: boolean;
+  is_geoblocked_for_viewer?: boolean;
+  bumped_message_metadata?: MessageBumpedMetadata;
+  /** Sender's IP address, only present on the exporting user's messages */
+  ip?: string;
+  /** People added (Subscribe) or removed (Unsubscribe) */
+  users?: MessageParticipant[];
+  poll?: MessagePoll;
+  payment?: MessagePayment;
+  /** Set during enrichment when the message is a system event */
+  event?: MessageEventKind;
   formattedDate?: string;
   formattedTime?: string;
 }
+/**
+ * List a message's attachments together with the media folder they live in
+ */
+export function getMessageAttachments(
+  message: Message,
+): { kind: MediaKind; attachment: Attachment }[] {
+  return MEDIA_KINDS.flatMap((kind) =>
+    (message[ATTACHMENT_FIELDS[kind]] ?? []).map((attachment) => ({
+      kind,
+      attachment,
+    })),
+  );
+}
+
 export function isMessageWithAttachments(message: Message): boolean {
   const ATTACHMENT_KEYS: (keyof Message)[] = [
     "photos",
@@ -54,39 +148,201 @@ export function isMessageWithAttachments(message: Message): boolean {
 }
 
 export interface FacebookMessageFile {
-  messages: Omit<Message, "id" | "formattedDate" | "formattedTime">[];
+  messages: Omit<Message, "id" | "event" | "formattedDate" | "formattedTime">[];
   participants?: MessageParticipant[];
   title?: string;
   thread_path?: string;
 }
 
+type RawMessage = FacebookMessageFile["messages"][number];
+
+/**
+ * A file inside an export that is read on demand
+ * Folder selections resolve immediately; zip entries are only inflated when
+ * `getFile` is called
+ */
+export interface ExportEntry {
+  /** Path relative to the selected folder or archive root */
+  path: string;
+  name: string;
+  size: number;
+  lastModified: number;
+  getFile: () => Promise<File>;
+}
+
+export const MEDIA_KINDS = [
+  "audio",
+  "files",
+  "gifs",
+  "photos",
+  "videos",
+] as const;
+
+export type MediaKind = (typeof MEDIA_KINDS)[number];
+
+/** Folder next to the thread folders holding every sticker used in the export */
+export const STICKERS_FOLDER = "stickers_used";
+
+/** Thread media folders plus the export-wide sticker folder */
+export type MediaFolder = MediaKind | "stickers";
+
+/**
+ * Map a folder name to the media it holds
+ */
+export function getMediaFolder(
+  folderName: string | undefined,
+): MediaFolder | undefined {
+  if (folderName === STICKERS_FOLDER) return "stickers";
+  return MEDIA_KINDS.find((k) => k === folderName);
+}
+
+/**
+ * A media folder that is not enumerated up front
+ * Files are looked up by name when an attachment needs them
+ */
+export interface ExportDirectory {
+  /** Path relative to the selected folder, like ExportEntry.path */
+  path: string;
+  kind: MediaFolder;
+  getEntry: (name: string) => Promise<ExportEntry | null>;
+}
+
 export interface FolderStructure {
-  audio: Record<string, File>;
-  files: Record<string, File>;
-  gifs: Record<string, File>;
-  photos: Record<string, File>;
-  videos: Record<string, File>;
+  audio: Record<string, ExportEntry>;
+  files: Record<string, ExportEntry>;
+  gifs: Record<string, ExportEntry>;
+  photos: Record<string, ExportEntry>;
+  videos: Record<string, ExportEntry>;
+  stickers: Record<string, ExportEntry>;
+  /** Fallback lookup for media folders that were not enumerated */
+  resolve?: (kind: MediaFolder, name: string) => Promise<ExportEntry | null>;
+}
+
+const ATTACHMENT_FIELDS = {
+  audio: "audio_files",
+  files: "files",
+  gifs: "gifs",
+  photos: "photos",
+  videos: "videos",
+} as const satisfies Record<MediaKind, keyof Message>;
+
+export const THREAD_CATEGORIES = [
+  "inbox",
+  "archived_threads",
+  "e2ee_cutover",
+  "filtered_threads",
+  "message_requests",
+] as const;
+
+export type ThreadCategory = (typeof THREAD_CATEGORIES)[number];
+
+export const EXPORT_PLATFORMS = ["facebook", "instagram"] as const;
+
+export type ExportPlatform = (typeof EXPORT_PLATFORMS)[number];
+
+export const PLATFORM_LABELS: Record<ExportPlatform, string> = {
+  facebook: "Messenger",
+  instagram: "Instagram",
+};
+
+/**
+ * One conversation folder found in the selection
+ */
+export interface ThreadSource {
+  /** Path of the thread folder, unique within the selection */
+  id: string;
+  folder: string;
+  category: ThreadCategory | null;
+  platform: ExportPlatform;
+  /** Every entry below the thread folder, message files and media alike */
+  entries: ExportEntry[];
+  /** Media folders below the thread folder that were not enumerated */
+  directories: ExportDirectory[];
+}
+
+export interface ThreadSummary {
+  thread: ThreadSource;
+  title: string;
+  participants: string[];
+  messageCount: number;
+  lastTimestamp: number | null;
+}
+
+/** What a thread's message files say about it, before the folder fallback */
+export type ThreadStats = Omit<ThreadSummary, "thread" | "title"> & {
+  title?: string;
+};
+
+export interface ExportSelection {
+  threads: ThreadSource[];
+}
+
+/**
+ * Progress of message ingestion, reported per chunk and per message batch
+ */
+export interface IngestProgress {
+  /** 1-based index of the file being read */
+  fileIndex: number;
+  fileCount: number;
+  fileName: string;
+  bytesRead: number;
+  fileSize: number;
+  /** Messages enriched so far across all files */
+  messagesProcessed: number;
 }
 
 export type MessageBubbleGroupPosition = "single" | "first" | "middle" | "last";
 
 /**
- * Read large JSON files in chunks to prevent browser freezing
+ * Wrap files from a `webkitdirectory` input as export entries
+ */
+export function entriesFromFileList(files: FileList | File[]): ExportEntry[] {
+  return Array.from(files, (file) => ({
+    path: file.webkitRelativePath || file.name,
+    name: file.name,
+    size: file.size,
+    lastModified: file.lastModified,
+    getFile: () => Promise.resolve(file),
+  }));
+}
+
+/**
+ * Stream a message_N.json file in chunks, emitting messages as they are parsed
+ * Only the message currently being tokenized is held as text, never the file
  * @param file - The JSON file to read
- * @param chunkSize - Size of each chunk in bytes (default: 512KB)
+ * @param onMessage - Called for each entry of the `messages` array, in file order
+ * @param options.onProperty - Called for other top-level fields (title, participants, ...)
+ * @param options.onChunk - Called after each chunk with the number of bytes read so far
+ * @param options.chunkSize - Size of each chunk in bytes (default: 512KB)
  */
-export async function readJsonInChunks<T>(
+export async function streamMessageFile(
   file: File,
-  chunkSize = 512 * 1024,
-): Promise<T> {
-  let text = "";
+  onMessage: (message: RawMessage) => void,
+  {
+    onProperty,
+    onChunk,
+    chunkSize = 512 * 1024,
+  }: {
+    onProperty?: (key: string, value: unknown) => void;
+    onChunk?: (bytesRead: number) => void;
+    chunkSize?: number;
+  } = {},
+): Promise<void> {
+  const parser = new JsonArrayStreamParser("messages", {
+    onItem: (item) => onMessage(item as RawMessage),
+    onProperty,
+  });
+  // Streaming decode keeps multi-byte characters intact across chunk borders
+  const decoder = new TextDecoder("utf-8");
 
   for (let offset = 0; offset < file.size; offset += chunkSize) {
     const chunk = file.slice(offset, offset + chunkSize);
-    text += await chunk.text();
+    parser.write(decoder.decode(await chunk.arrayBuffer(), { stream: true }));
+    onChunk?.(Math.min(offset + chunkSize, file.size));
   }
 
-  return JSON.parse(text) as T;
+  parser.write(decoder.decode());
+  parser.end();
 }
 
 /**
@@ -113,37 +369,80 @@ export function fixEncoding(str: string): string {
   }
 }
 
+const INSTAGRAM_URI = /(^|\/)your_instagram_activity\//;
+
 /**
- * Validate folder structure for Facebook Messenger export
- * @throws Error with specific message if validation fails
+ * Tell Instagram exports apart by their root folder
+ * Accounts Center downloads contain your_instagram_activity/, and archives and
+ * their unzipped folders are named instagram-<user>-<date>
  */
-export function validateFolder(files: FileList): {
-  chatFolder: string;
-  validFiles: File[];
-} {
-  const fileArray = Array.from(files);
+export function detectPlatform(path: string): ExportPlatform {
+  return /(^|\/)(your_instagram_activity|instagram-[^/]+)\//i.test(path)
+    ? "instagram"
+    : "facebook";
+}
 
-  // Find message JSON files
-  const messageFiles = fileArray.filter((f) =>
-    /message_\d+\.json$/.test(f.name),
+/**
+ * Tell Instagram threads apart by their messages, for selections below the
+ * export root (a thread folder or messages/) that detectPlatform cannot place
+ * Instagram attachment URIs start at your_instagram_activity/, and only
+ * Instagram records reaction times and the owners of shared posts
+ */
+export function detectMessagesPlatform(messages: Message[]): ExportPlatform {
+  const isInstagram = messages.some(
+    (message) =>
+      getMessageAttachments(message).some(({ attachment }) =>
+        INSTAGRAM_URI.test(attachment.uri),
+      ) ||
+      message.reactions?.some((reaction) => reaction.timestamp !== undefined) ||
+      message.share?.original_content_owner !== undefined,
   );
+  return isInstagram ? "instagram" : "facebook";
+}
+
+/**
+ * Normalize an attachment URI so its file name matches the media folders
+ * Instagram URIs may carry query strings, backslashes or a leading "./"
+ */
+export function normalizeAttachmentUri(uri: string): string {
+  return uri
+    .replace(/[?#].*$/, "")
+    .replace(/\\/g, "/")
+    .replace(/^\.?\//, "");
+}
+
+/**
+ * Validate folder structure for Facebook Messenger export
+ * Accepts a single chat folder or a whole messages root; every folder holding
+ * message_*.json files becomes its own thread. HTML exports' message_*.html
+ * files are swapped for lazily converted JSON entries
+ * @param directories - Media folders that were not enumerated (folder access API)
+ * @throws Error with specific message if validation fails
+ */
+export function validateFolder(
+  selectedEntries: ExportEntry[],
+  directories: ExportDirectory[] = [],
+): ExportSelection {
+  // Find message JSON files, converting HTML ones
+  const entries = withHtmlMessageFiles(selectedEntries);
+  const messageFiles = entries.filter((f) => /message_\d+\.json$/.test(f.name));
 
   if (messageFiles.length === 0) {
     throw new Error(
-      "No message_*.json files found. Please select a valid Facebook Messenger export folder.",
+      "No message_*.json or message_*.html files found. Please select a valid Facebook Messenger export folder.",
     );
   }
 
   // Check for media folders
-  const hasMediaFolders = fileArray.some((f) => {
-    const pathParts = f.webkitRelativePath.split("/");
-    return (
-      pathParts.length > 1 &&
-      ["audio", "files", "gifs", "photos", "videos"].includes(
-        pathParts[pathParts.length - 2],
-      )
-    );
-  });
+  const hasMediaFolders =
+    directories.length > 0 ||
+    entries.some((f) => {
+      const pathParts = f.path.split("/");
+      return (
+        pathParts.length > 1 &&
+        MEDIA_KINDS.some((kind) => kind === pathParts[pathParts.length - 2])
+      );
+    });
 
   if (!hasMediaFolders) {
     throw new Error(
@@ -151,131 +450,524 @@ export function validateFolder(files: FileList): {
     );
   }
 
-  // Extract chat folder name from first message file path
-  const firstMessagePath = messageFiles[0].webkitRelativePath;
-  const pathParts = firstMessagePath.split("/");
-  const chatFolder = pathParts[pathParts.length - 2];
+  // Each parent folder of a message file is a thread
+  const threads = new Map<string, ThreadSource>();
+  for (const messageFile of messageFiles) {
+    const pathParts = messageFile.path.split("/");
+    const folder = pathParts[pathParts.length - 2];
 
-  if (!chatFolder) {
-    throw new Error(
-      "Could not determine chat folder name from file structure.",
-    );
+    if (!folder) {
+      throw new Error(
+        "Could not determine chat folder name from file structure.",
+      );
+    }
+
+    const id = pathParts.slice(0, -1).join("/");
+    if (threads.has(id)) continue;
+
+    const parent = pathParts[pathParts.length - 3];
+    threads.set(id, {
+      id,
+      folder,
+      category: THREAD_CATEGORIES.find((c) => c === parent) ?? null,
+      platform: detectPlatform(messageFile.path),
+      entries: [],
+      directories: [],
+    });
   }
 
-  return { chatFolder, validFiles: fileArray };
+  // Assign every entry and directory to the closest enclosing thread folder
+  const findThread = (path: string) => {
+    const pathParts = path.split("/");
+    for (let depth = pathParts.length - 1; depth > 0; depth--) {
+      const thread = threads.get(pathParts.slice(0, depth).join("/"));
+      if (thread) return thread;
+    }
+    return undefined;
+  };
+
+  // The sticker folder sits next to the thread folders and is shared by all
+  const sharedEntries: ExportEntry[] = [];
+  const sharedDirectories: ExportDirectory[] = [];
+
+  for (const entry of entries) {
+    const thread = findThread(entry.path);
+    if (thread) {
+      thread.entries.push(entry);
+    } else if (entry.path.split("/").at(-2) === STICKERS_FOLDER) {
+      sharedEntries.push(entry);
+    }
+  }
+  for (const directory of directories) {
+    const thread = findThread(directory.path);
+    if (thread) {
+      thread.directories.push(directory);
+    } else if (directory.kind === "stickers") {
+      sharedDirectories.push(directory);
+    }
+  }
+
+  for (const thread of threads.values()) {
+    thread.entries.push(...sharedEntries);
+    thread.directories.push(...sharedDirectories);
+  }
+
+  return { threads: Array.from(threads.values()) };
 }
 
 /**
  * Build folder structure mapping for media files
- * Enables future media preview functionality
+ * Enables media preview without reading any file up front
+ * @param directories - Media folders to search by name instead of listing
  */
-export function buildFolderStructure(files: File[]): FolderStructure {
+export function buildFolderStructure(
+  files: ExportEntry[],
+  directories: ExportDirectory[] = [],
+): FolderStructure {
   const structure: FolderStructure = {
     audio: {},
     files: {},
     gifs: {},
     photos: {},
     videos: {},
+    stickers: {},
   };
 
   for (const file of files) {
-    const pathParts = file.webkitRelativePath.split("/");
+    const pathParts = file.path.split("/");
     if (pathParts.length < 2) continue;
 
     const folderName = pathParts[pathParts.length - 2];
     const fileName = pathParts[pathParts.length - 1];
 
-    if (folderName in structure) {
-      structure[folderName as keyof FolderStructure][fileName] = file;
+    const kind = getMediaFolder(folderName);
+    if (kind) {
+      structure[kind][fileName] = file;
     }
   }
 
+  if (directories.length > 0) {
+    structure.resolve = async (kind, name) => {
+      for (const directory of directories) {
+        if (directory.kind !== kind) continue;
+        const entry = await directory.getEntry(name);
+        if (entry) {
+          // Remember the hit so the next lookup is synchronous
+          structure[kind][name] = entry;
+          return entry;
+        }
+      }
+      return null;
+    };
+  }
+
   return structure;
 }
 
+/**
+ * Find the export entry for an attachment URI in the folder structure
+ * @returns null when the attachment is not part of the selected folder
+ */
+export async function getMediaEntry(
+  structure: FolderStructure,
+  kind: MediaFolder,
+  uri: string,
+): Promise<ExportEntry | null> {
+  const fileName = uri.split("/").pop();
+  if (!fileName) return null;
+  return (
+    structure[kind][fileName] ??
+    (await structure.resolve?.(kind, fileName)) ??
+    null
+  );
+}
+
+/**
+ * Resolve an attachment URI to its file in the folder structure
+ * @returns null when the attachment is not part of the selected folder
+ */
+export async function getMediaFile(
+  structure: FolderStructure,
+  kind: MediaFolder,
+  uri: string,
+): Promise<File | null> {
+  const entry = await getMediaEntry(structure, kind, uri);
+  return entry ? entry.getFile() : null;
+}
+
+/**
+ * Enrich a raw export message: decode text fields and precompute display dates
+ */
+export function enrichMessage(msg: RawMessage, id: string): Message {
+  const date = new Date(msg.timestamp_ms);
+  const attachments: Partial<
+    Pick<Message, (typeof ATTACHMENT_FIELDS)[MediaKind]>
+  > = {};
+  for (const field of Object.values(ATTACHMENT_FIELDS)) {
+    attachments[field] = msg[field]?.map((attachment) => ({
+      ...attachment,
+      uri: normalizeAttachmentUri(attachment.uri),
+    }));
+  }
+
+  const message: Message = {
+    ...msg,
+    ...attachments,
+    id,
+    sender_name: fixEncoding(msg.sender_name),
+    content: msg.content ? fixEncoding(msg.content) : undefined,
+    reactions: msg.reactions?.map((reaction) => ({
+      ...reaction,
+      reaction: fixEncoding(reaction.reaction),
+      actor: fixEncoding(reaction.actor),
+    })),
+    share: msg.share
+      ? {
+          link: msg.share.link ? fixEncoding(msg.share.link) : undefined,
+          share_text: msg.share.share_text
+            ? fixEncoding(msg.share.share_text)
+            : undefined,
+          original_content_owner: msg.share.original_content_owner
+            ? fixEncoding(msg.share.original_content_owner)
+            : undefined,
+        }
+      : undefined,
+    sticker: msg.sticker
+      ? { ...msg.sticker, uri: normalizeAttachmentUri(msg.sticker.uri) }
+      : undefined,
+    bumped_message_metadata: msg.bumped_message_metadata
+      ? {
+          ...msg.bumped_message_metadata,
+          bumped_message: msg.bumped_message_metadata.bumped_message
+            ? fixEncoding(msg.bumped_message_metadata.bumped_message)
+            : undefined,
+        }
+      : undefined,
+    users: msg.users?.map((user) => ({ name: fixEncoding(user.name) })),
+    poll: msg.poll
+      ? {
+          question: fixEncoding(msg.poll.question),
+          options: msg.poll.options.map((option) => ({
+            option: fixEncoding(option.option),
+            voters: option.voters?.map((voter) => fixEncoding(voter)),
+          })),
+        }
+      : undefined,
+    payment: msg.payment
+      ? {
+          ...msg.payment,
+          receiver: msg.payment.receiver
+            ? fixEncoding(msg.payment.receiver)
+            : undefined,
+        }
+      : undefined,
+    formattedDate: date.toLocaleDateString(),
+    formattedTime: date.toLocaleTimeString([], {
+      hour: "2-digit",
+      minute: "2-digit",
+    }),
+  };
+  message.event = classifyMessageEvent(message);
+
+  return message;
+}
+
+export interface ProcessedMessages {
+  /** Chronologically sorted, without duplicates across exports */
+  messages: Message[];
+  duplicatesDropped: number;
+  /** Already-emitted messages whose reactions changed after merging */
+  updatedMessages: Message[];
+}
+
+/**
+ * Identify the same message across exports: sender, time, text and attachments
+ * Attachment file names are used instead of full URIs, which embed the export
+ * folder layout
+ */
+export function getMessageDedupeKey(message: Message): string {
+  const attachments = getMessageAttachments(message)
+    .map(({ attachment }) => attachment.uri.split("/").pop())
+    .join(",");
+  return [
+    message.sender_name,
+    message.timestamp_ms,
+    message.content ?? "",
+    attachments,
+  ].join("\u0000");
+}
+
+/**
+ * Merge reactions of a message seen again in a later export
+ * The later export wins for each actor; actors only in the earlier one are kept
+ * @returns true if the reactions changed
+ */
+function mergeReactions(target: Message, later: Message): boolean {
+  if (!later.reactions?.length) return false;
+
+  const byActor = new Map(
+    (target.reactions ?? []).map((reaction) => [reaction.actor, reaction]),
+  );
+  let changed = false;
+  for (const reaction of later.reactions) {
+    if (byActor.get(reaction.actor)?.reaction !== reaction.reaction) {
+      byActor.set(reaction.actor, reaction);
+      changed = true;
+    }
+  }
+
+  if (changed) target.reactions = Array.from(byActor.values());
+  return changed;
+}
+
+function getNewestModified(files: ExportEntry[]): number {
+  return Math.max(0, ...files.map((f) => f.lastModified));
+}
+
 /**
  * Process message files: read, parse, enrich, and aggregate
- * @param files - Array of message_*.json files
- * @param onProgress - Optional callback for progress updates
+ * Runs inside the ingest worker (see messageIngest.ts); avoid calling it on
+ * the main thread for large conversations
+ * @param sources - Message file entries of each export of the conversation;
+ *   usually one. Several exports are merged oldest first and deduplicated
+ * @param options.onProgress - Optional callback for progress updates
+ * @param options.onBatch - Optional callback with newly enriched messages after
+ *   every chunk, in file order (not yet sorted)
+ * @param options.signal - Optional signal to stop between chunks
  */
 export async function processMessageFiles(
-  files: File[],
-  onProgress?: (current: number, total: number) => void,
-): Promise<Message[]> {
-  // Step 1: Sort message files by number
-  const sortedFiles = files
-    .filter((f) => /message_\d+\.json$/.test(f.name))
-    .sort((a, b) => {
-      const numA = Number.parseInt(a.name.match(/\d+/)?.[0] || "0", 10);
-      const numB = Number.parseInt(b.name.match(/\d+/)?.[0] || "0", 10);
-      return numA - numB;
-    });
+  sources: ExportEntry[][],
+  {
+    onProgress,
+    onBatch,
+    signal,
+  }: {
+    onProgress?: (progress: IngestProgress) => void;
+    onBatch?: (messages: Message[]) => void;
+    signal?: AbortSignal;
+  } = {},
+): Promise<ProcessedMessages> {
+  const isMerging = sources.length > 1;
+
+  // Step 1: Sort message files by number, and exports by age so later
+  // exports' reaction edits win
+  const sortedSources = sources
+    .map((files) =>
+      files
+        .filter((f) => /message_\d+\.json$/.test(f.name))
+        .sort((a, b) => {
+          const numA = Number.parseInt(a.name.match(/\d+/)?.[0] || "0", 10);
+          const numB = Number.parseInt(b.name.match(/\d+/)?.[0] || "0", 10);
+          return numA - numB;
+        }),
+    )
+    .sort((a, b) => getNewestModified(a) - getNewestModified(b));
+  const fileCount = sortedSources.reduce((n, files) => n + files.length, 0);
 
   const allMessages: Message[] = [];
+  const seen = new Map<string, Message>();
+  const updated = new Set<Message>();
+  let duplicatesDropped = 0;
+  let fileIndex = 0;
 
-  // Step 2-4: Read, parse, and enrich messages
-  for (let i = 0; i < sortedFiles.length; i++) {
-    const file = sortedFiles[i];
-    onProgress?.(i + 1, sortedFiles.length);
+  // Step 2-4: Stream, parse, and enrich messages
+  for (let sourceIndex = 0; sourceIndex < sortedSources.length; sourceIndex++) {
+    for (const file of sortedSources[sourceIndex]) {
+      fileIndex++;
+      let batchStart = allMessages.length;
+      let index = 0;
+      const idPrefix = isMerging ? `${sourceIndex}/` : "";
 
-    try {
-      // Chunked reading
-      const data = await readJsonInChunks<FacebookMessageFile>(file);
+      const report = (bytesRead: number) =>
+        onProgress?.({
+          fileIndex,
+          fileCount,
+          fileName: file.name,
+          bytesRead,
+          fileSize: file.size,
+          messagesProcessed: allMessages.length,
+        });
+
+      const flush = () => {
+        if (allMessages.length > batchStart) {
+          onBatch?.(allMessages.slice(batchStart));
+          batchStart = allMessages.length;
+        }
+      };
+
+      signal?.throwIfAborted();
+      report(0);
+
+      try {
+        await streamMessageFile(
+          await file.getFile(),
+          (msg) => {
+            const message = enrichMessage(
+              msg,
+              `${idPrefix}${file.name}_${index++}`,
+            );
+            if (!isMerging) {
+              allMessages.push(message);
+              return;
+            }
 
-      if (!data.messages || !Array.isArray(data.messages)) {
-        console.warn(`No messages array in ${file.name}`);
-        continue;
+            const key = getMessageDedupeKey(message);
+            const existing = seen.get(key);
+            if (!existing) {
+              seen.set(key, message);
+              allMessages.push(message);
+              return;
+            }
+
+            duplicatesDropped++;
+            if (mergeReactions(existing, message)) updated.add(existing);
+          },
+          {
+            onChunk: (bytesRead) => {
+              signal?.throwIfAborted();
+              flush();
+              report(bytesRead);
+            },
+          },
+        );
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        console.error(`Error processing ${file.name}:`, error);
       }
 
-      // Enrich messages
-      const enrichedMessages = data.messages.map((msg, index) => {
-        const date = new Date(msg.timestamp_ms);
-
-        return {
-          ...msg,
-          id: `${file.name}_${index}`,
-          sender_name: fixEncoding(msg.sender_name),
-          content: msg.content ? fixEncoding(msg.content) : undefined,
-          reactions: msg.reactions?.map((reaction) => ({
-            ...reaction,
-            reaction: fixEncoding(reaction.reaction),
-            actor: fixEncoding(reaction.actor),
-          })),
-          share: msg.share
-            ? {
-                link: msg.share.link ? fixEncoding(msg.share.link) : undefined,
-                share_text: msg.share.share_text
-                  ? fixEncoding(msg.share.share_text)
-                  : undefined,
-              }
-            : undefined,
-          formattedDate: date.toLocaleDateString(),
-          formattedTime: date.toLocaleTimeString([], {
-            hour: "2-digit",
-            minute: "2-digit",
-          }),
-        };
-      });
-
-      allMessages.push(...enrichedMessages);
-    } catch (error) {
-      console.error(`Error processing ${file.name}:`, error);
+      // Keep whatever parsed before an error so a truncated file still shows
+      flush();
+      report(file.size);
     }
   }
 
   // Step 5: Sort chronologically
   allMessages.sort((a, b) => a.timestamp_ms - b.timestamp_ms);
 
-  return allMessages;
+  return {
+    messages: allMessages,
+    duplicatesDropped,
+    updatedMessages: Array.from(updated),
+  };
+}
+
+/**
+ * Merge two chronologically sorted message lists into a new sorted list
+ */
+export function mergeSortedMessages(a: Message[], b: Message[]): Message[] {
+  const merged: Message[] = new Array(a.length + b.length);
+  let i = 0;
+  let j = 0;
+  let k = 0;
+
+  while (i < a.length && j < b.length) {
+    merged[k++] = a[i].timestamp_ms <= b[j].timestamp_ms ? a[i++] : b[j++];
+  }
+  while (i < a.length) merged[k++] = a[i++];
+  while (j < b.length) merged[k++] = b[j++];
+
+  return merged;
+}
+
+/**
+ * Read a thread's message files for the conversation list
+ * Runs in messageIngest.worker.ts; summarizeThreads falls back to the folder
+ * name where the export has no title
+ */
+export async function summarizeMessageFiles(
+  files: File[],
+): Promise<ThreadStats> {
+  let title: string | undefined;
+  let participants: string[] = [];
+  let messageCount = 0;
+  let lastTimestamp: number | null = null;
+
+  for (const file of files) {
+    try {
+      await streamMessageFile(
+        file,
+        (msg) => {
+          messageCount++;
+          if (lastTimestamp === null || msg.timestamp_ms > lastTimestamp) {
+            lastTimestamp = msg.timestamp_ms;
+          }
+        },
+        {
+          onProperty: (key, value) => {
+            if (key === "title" && !title && typeof value === "string") {
+              title = fixEncoding(value);
+            }
+            if (
+              key === "participants" &&
+              participants.length === 0 &&
+              Array.isArray(value)
+            ) {
+              participants = (value as MessageParticipant[]).map((p) =>
+                fixEncoding(p.name),
+              );
+            }
+          },
+        },
+      );
+    } catch (error) {
+      console.error(`Error summarizing ${file.name}:`, error);
+    }
+  }
+
+  return { title, participants, messageCount, lastTimestamp };
 }
 
 /**
  * Clean Facebook attachment URI for user display
- * Removes the first 3 path parts (your_facebook_activity/messages/folder_type)
+ * Removes the path up to the folder type (your_facebook_activity/messages/inbox);
+ * older and Instagram exports start at messages/ directly
  */
 export function cleanAttachmentPath(uri: string): string {
   const parts = uri.split("/");
-  return parts.slice(3).join("/");
+  const messagesIndex = parts.indexOf("messages");
+  return parts.slice(messagesIndex >= 0 ? messagesIndex + 2 : 3).join("/");
+}
+
+/**
+ * Format a media duration in seconds for display, e.g. 1:05 or 1:02:03
+ */
+export function formatDuration(seconds: number): string {
+  if (!Number.isFinite(seconds)) return "--:--";
+  const total = Math.round(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, "0");
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, "0")}:${secs}`
+    : `${minutes}:${secs}`;
+}
+
+/**
+ * Last millisecond of a date's local day
+ * Days are not always 24 hours long, so this steps to the next midnight
+ */
+export function getEndOfDay(date: Date): number {
+  return (
+    new Date(
+      date.getFullYear(),
+      date.getMonth(),
+      date.getDate() + 1,
+    ).getTime() - 1
+  );
+}
+
+/**
+ * Format a byte count for display, e.g. 1.5 MB
+ */
+export function formatBytes(bytes: number): string {
+  const units = ["B", "KB", "MB", "GB", "TB"];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
 }
 
 /**
@@ -305,7 +997,7 @@ export async function loadDemoChat(): Promise<Message[]> {
   const enrichedMessages = data.messages.map((msg, index) => {
     const date = new Date(msg.timestamp_ms);
 
-    return {
+    const message: Message = {
       ...msg,
       id: `demo_${index}`,
       formattedDate: date.toLocaleDateString(),
@@ -314,6 +1006,8 @@ export async function loadDemoChat(): Promise<Message[]> {
         minute: "2-digit",
       }),
     };
+    message.event = classifyMessageEvent(message);
+    return message;
   });
 
   // Sort chronologically
@@ -322,6 +1016,144 @@ export async function loadDemoChat(): Promise<Message[]> {
   return enrichedMessages;
 }
 
+export const VISUAL_MEDIA_KINDS = ["photos", "gifs", "videos"] as const;
+
+export type VisualMediaKind = (typeof VISUAL_MEDIA_KINDS)[number];
+
+/**
+ * An attachment together with the message it was sent in
+ */
+export interface AttachmentItem {
+  messageId: string;
+  kind: MediaKind;
+  attachment: Attachment;
+  sender_name: string;
+  timestamp_ms: number;
+}
+
+/**
+ * A photo, GIF or video together with the message it was sent in
+ */
+export interface MediaItem extends AttachmentItem {
+  kind: VisualMediaKind;
+}
+
+/**
+ * List a conversation's attachments of the given kinds in message order
+ * @param messages - Chronologically sorted messages
+ */
+export function getConversationAttachments<K extends MediaKind>(
+  messages: Message[],
+  kinds: readonly K[],
+): (AttachmentItem & { kind: K })[] {
+  return messages.flatMap((message) =>
+    kinds.flatMap((kind) =>
+      (message[ATTACHMENT_FIELDS[kind]] ?? []).map((attachment) => ({
+        messageId: message.id,
+        kind,
+        attachment,
+        sender_name: message.sender_name,
+        timestamp_ms: message.timestamp_ms,
+      })),
+    ),
+  );
+}
+
+/**
+ * List a conversation's photos, GIFs and videos in message order
+ * @param messages - Chronologically sorted messages
+ */
+export function getConversationMedia(messages: Message[]): MediaItem[] {
+  return getConversationAttachments(messages, VISUAL_MEDIA_KINDS);
+}
+
+/**
+ * A shared document together with the message it was sent in
+ */
+export interface FileItem {
+  messageId: string;
+  attachment: Attachment;
+  /** File name from the attachment URI */
+  name: string;
+  sender_name: string;
+  timestamp_ms: number;
+}
+
+/**
+ * A shared link together with the message it was sent in
+ */
+export interface LinkItem {
+  messageId: string;
+  link: string;
+  /** Host name without a leading "www." */
+  domain: string;
+  share_text?: string;
+  sender_name: string;
+  timestamp_ms: number;
+}
+
+/**
+ * List a conversation's file attachments in message order
+ * @param messages - Chronologically sorted messages
+ */
+export function getConversationFiles(messages: Message[]): FileItem[] {
+  return messages.flatMap((message) =>
+    (message.files ?? []).map((attachment) => ({
+      messageId: message.id,
+      attachment,
+      name: attachment.uri.split("/").pop() || attachment.uri,
+      sender_name: message.sender_name,
+      timestamp_ms: message.timestamp_ms,
+    })),
+  );
+}
+
+/**
+ * Resolve Facebook's outbound redirect (l.facebook.com/l.php?u=...) to the
+ * shared URL, so links show and open their real destination
+ */
+export function getSharedLinkTarget(link: string): string {
+  try {
+    const url = new URL(link);
+    const target = url.searchParams.get("u");
+    return /^l\.(facebook|instagram)\.com$/.test(url.hostname) && target
+      ? target
+      : link;
+  } catch {
+    return link;
+  }
+}
+
+/**
+ * List a conversation's shared links in message order
+ * @param messages - Chronologically sorted messages
+ */
+export function getConversationLinks(messages: Message[]): LinkItem[] {
+  return messages.flatMap((message) => {
+    const link = message.share?.link;
+    if (!link) return [];
+
+    const target = getSharedLinkTarget(link);
+    let domain: string;
+    try {
+      domain = new URL(target).hostname.replace(/^www\./, "");
+    } catch {
+      domain = target;
+    }
+
+    return [
+      {
+        messageId: message.id,
+        link: target,
+        domain,
+        share_text: message.share?.share_text,
+        sender_name: message.sender_name,
+        timestamp_ms: message.timestamp_ms,
+      },
+    ];
+  });
+}
+
 /**
  * Extract unique participants from messages
  */
@@ -331,10 +1163,15 @@ export function extractParticipants(messages: Message[]): string[] {
 }
 
 export function getMessageGroupPosition(
-  previousMessage: Message | null,
+  previous: Message | null,
   currentMessage: Message,
-  nextMessage: Message | null,
+  next: Message | null,
 ): MessageBubbleGroupPosition {
+  // System events never join a group, and split the groups around them
+  if (currentMessage.event) return "single";
+  const previousMessage = previous?.event ? null : previous;
+  const nextMessage = next?.event ? null : next;
+
   // single message
   if (
     (!previousMessage ||
@@ -377,6 +1214,19 @@ export async function copyToClipboard(text: string): Promise<boolean> {
   }
 }
 
+/**
+ * Save a file through the browser's download prompt
+ */
+export function downloadFile(file: Blob, name: string) {
+  const url = URL.createObjectURL(file);
+  const anchor = document.createElement("a");
+  anchor.href = url;
+  anchor.download = name;
+  anchor.click();
+  // Give the browser a moment to start the download before releasing it
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
 export function getMessageBubbleRadius(
   groupPosition: MessageBubbleGroupPosition,
   flip: boolean,
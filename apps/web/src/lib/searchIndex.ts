@@ -0,0 +1,311 @@
+/**
+ * Inverted index for message search
+ * Text is split into word tokens; each token maps to the ascending indexes of
+ * the messages containing it, and the sorted token list answers prefix
+ * lookups with a binary search
+ * Must stay free of DOM APIs: the index is built in messageSearch.worker.ts
+ */
+
+import { getMessageAttachments, type Message } from "@/lib/messageUtils";
+
+const TOKEN_PATTERN = /[\p{L}\p{M}\p{N}]+/gu;
+const SEPARATOR_PATTERN = /[^\p{L}\p{M}\p{N}]+/u;
+const NON_ASCII_PATTERN = /[^\x20-\x7e]/;
+
+export interface Token {
+  text: string;
+  start: number;
+  end: number;
+}
+
+/** Distinct tokens, sorted, with the messages that contain each */
+interface TokenTable {
+  tokens: string[];
+  /** Ascending message indexes for each token, parallel to tokens */
+  postings: Uint32Array[];
+}
+
+export interface SearchIndex {
+  /** Lowercase tokens */
+  exact: TokenTable;
+  /** Lowercase tokens with accents removed */
+  folded: TokenTable;
+  messageCount: number;
+}
+
+export interface MatchOptions {
+  /** Match words exactly instead of as prefixes */
+  wholeWord: boolean;
+  /** Match "di dau" to "đi đâu" */
+  ignoreAccents: boolean;
+}
+
+/**
+ * Split text into word tokens with their positions in the text
+ */
+export function tokenize(text: string): Token[] {
+  return Array.from(text.matchAll(TOKEN_PATTERN), (match) => ({
+    text: match[0],
+    start: match.index,
+    end: match.index + match[0].length,
+  }));
+}
+
+/**
+ * Split text into words, like tokenize but without positions and faster
+ */
+export function splitWords(text: string): string[] {
+  return text.split(SEPARATOR_PATTERN).filter(Boolean);
+}
+
+/**
+ * Normalize a token for the index and for lookups
+ */
+export function normalizeToken(token: string): string {
+  return token.normalize("NFC").toLowerCase();
+}
+
+/**
+ * Remove accents and lowercase, keeping track of where each character of the
+ * result came from, so matches in folded text map back to the original
+ * @returns The folded text and, for each of its characters plus the end, the
+ *   offset in the original text
+ */
+export function foldWithOffsets(text: string): {
+  folded: string;
+  offsets: number[];
+} {
+  let folded = "";
+  const offsets: number[] = [];
+  let offset = 0;
+  for (const char of text) {
+    if (char < "\x80") {
+      folded += char.toLowerCase();
+      offsets.push(offset++);
+      continue;
+    }
+    // đ has no decomposition, so it is mapped by hand
+    const base = char
+      .toLowerCase()
+      .normalize("NFD")
+      .replace(/\p{M}/gu, "")
+      .replace(/đ/g, "d");
+    for (const part of base) {
+      folded += part;
+      for (let i = 0; i < part.length; i++) offsets.push(offset);
+    }
+    offset += char.length;
+  }
+  offsets.push(offset);
+  return { folded, offsets };
+}
+
+/**
+ * Remove accents and lowercase: "Hoàng Phúc đi đâu" becomes "hoang phuc di dau"
+ */
+export function foldText(text: string): string {
+  if (!NON_ASCII_PATTERN.test(text)) return text.toLowerCase();
+  return text
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/\p{M}/gu, "")
+    .replace(/đ/g, "d");
+}
+
+/**
+ * Normalize a token for the table the options select
+ */
+export function normalizeQueryToken(
+  token: string,
+  { ignoreAccents }: Pick<MatchOptions, "ignoreAccents">,
+): string {
+  return ignoreAccents ? foldText(token) : normalizeToken(token);
+}
+
+/**
+ * Text of a message that search looks at: content, shared link titles,
+ * the sender's name and attachment file names
+ */
+export function getSearchableFields(message: Message): string[] {
+  const fields = [message.sender_name];
+  if (message.content) fields.push(message.content);
+  if (message.share?.share_text) fields.push(message.share.share_text);
+  for (const { attachment } of getMessageAttachments(message)) {
+    const fileName = attachment.uri.split("/").pop();
+    if (fileName) fields.push(fileName);
+  }
+  return fields;
+}
+
+export function buildSearchIndex(messages: Message[]): SearchIndex {
+  const postingLists = new Map<string, number[]>();
+
+  messages.forEach((message, messageIndex) => {
+    for (const field of getSearchableFields(message)) {
+      for (const { text } of tokenize(field)) {
+        const token = normalizeToken(text);
+        const list = postingLists.get(token);
+        if (!list) {
+          postingLists.set(token, [messageIndex]);
+        } else if (list[list.length - 1] !== messageIndex) {
+          list.push(messageIndex);
+        }
+      }
+    }
+  });
+
+  // Accented spellings of a word share one folded token
+  const foldedLists = new Map<string, number[]>();
+  for (const [token, list] of postingLists) {
+    const folded = foldText(token);
+    const existing = foldedLists.get(folded);
+    if (!existing) {
+      foldedLists.set(folded, [...list]);
+    } else {
+      for (const messageIndex of list) existing.push(messageIndex);
+    }
+  }
+  for (const list of foldedLists.values()) {
+    list.sort((a, b) => a - b);
+  }
+
+  return {
+    exact: toTokenTable(postingLists),
+    folded: toTokenTable(foldedLists, true),
+    messageCount: messages.length,
+  };
+}
+
+function toTokenTable(
+  postingLists: Map<string, number[]>,
+  dedupe = false,
+): TokenTable {
+  const tokens = [...postingLists.keys()].sort();
+  return {
+    tokens,
+    postings: tokens.map((token) => {
+      const list = postingLists.get(token) ?? [];
+      return Uint32Array.from(
+        dedupe ? list.filter((value, i) => list[i - 1] !== value) : list,
+      );
+    }),
+  };
+}
+
+/** First position in the sorted token list that is not below the token */
+function lowerBound(tokens: string[], token: string): number {
+  let low = 0;
+  let high = tokens.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (tokens[mid] < token) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
+
+/**
+ * Messages containing a token, or any token starting with it
+ * @param token - A token normalized with normalizeQueryToken
+ * @returns Ascending message indexes
+ */
+export function lookupToken(
+  index: SearchIndex,
+  token: string,
+  { wholeWord, ignoreAccents }: MatchOptions,
+): Uint32Array {
+  const { tokens, postings } = ignoreAccents ? index.folded : index.exact;
+  const start = lowerBound(tokens, token);
+  if (wholeWord) {
+    return tokens[start] === token ? postings[start] : new Uint32Array();
+  }
+
+  const lists: Uint32Array[] = [];
+  for (let i = start; i < tokens.length && tokens[i].startsWith(token); i++) {
+    lists.push(postings[i]);
+  }
+  if (lists.length <= 1) return lists[0] ?? new Uint32Array();
+
+  // A bitmap over all messages unions the lists without sorting them
+  const seen = new Uint8Array(index.messageCount);
+  let count = 0;
+  for (const list of lists) {
+    for (const messageIndex of list) {
+      if (!seen[messageIndex]) {
+        seen[messageIndex] = 1;
+        count++;
+      }
+    }
+  }
+  const union = new Uint32Array(count);
+  for (let i = 0, j = 0; i < seen.length; i++) {
+    if (seen[i]) union[j++] = i;
+  }
+  return union;
+}
+
+/**
+ * Messages present in both ascending lists
+ */
+export function intersectPostings(a: Uint32Array, b: Uint32Array): Uint32Array {
+  const result: number[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push(a[i]);
+      i++;
+      j++;
+    } else if (a[i] < b[j]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return Uint32Array.from(result);
+}
+
+/**
+ * Messages present in either ascending list
+ */
+export function unionPostings(a: Uint32Array, b: Uint32Array): Uint32Array {
+  const result: number[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (j >= b.length || (i < a.length && a[i] < b[j])) {
+      result.push(a[i++]);
+    } else if (i >= a.length || b[j] < a[i]) {
+      result.push(b[j++]);
+    } else {
+      result.push(a[i]);
+      i++;
+      j++;
+    }
+  }
+  return Uint32Array.from(result);
+}
+
+/**
+ * Match one word of a text against a normalized query term
+ * @param term - A term normalized with normalizeQueryToken
+ * @returns Length of the matched part of the original word, 0 for no match;
+ *   with ignoreAccents a prefix match of "hoa" on "Hoàng" covers exactly "Hoà"
+ *   even when accents change the word's length
+ */
+export function matchToken(
+  word: string,
+  term: string,
+  options: MatchOptions,
+): number {
+  const { folded, offsets } = options.ignoreAccents
+    ? foldWithOffsets(word)
+    : { folded: normalizeToken(word), offsets: null };
+
+  const isMatch = options.wholeWord ? folded === term : folded.startsWith(term);
+  if (!isMatch) return 0;
+
+  // An exact word whose normalization changed its length is matched whole
+  if (offsets) return offsets[term.length];
+  return folded.length === word.length ? term.length : word.length;
+}
@@ -0,0 +1,676 @@
+/**
+ * Search query language
+ * Queries are parsed into a QueryNode tree on the main thread, where syntax
+ * errors are shown, and executed in messageSearch.worker.ts, where the
+ * inverted index narrows the candidates before each message is tested
+ * Must stay free of DOM APIs
+ *
+ *   hoang "đi đâu"            words (by prefix) and phrases, all required
+ *   pizza OR sushi            either side; binds looser than listing words
+ *   -work -(a OR b)           exclude
+ *   from:"Hoàng Phúc"         sender name contains
+ *   has:photo                 photo, video, audio, file, gif, link, reaction
+ *   before:2023-05 on:2022-12-24 after:2021
+ *   reacted:❤️ is:unsent is:call
+ *   /\bha+\b/i                regular expression over the message text
+ */
+
+import type { Message } from "@/lib/messageUtils";
+import {
+  getSearchableFields,
+  intersectPostings,
+  lookupToken,
+  type MatchOptions,
+  matchToken,
+  normalizeQueryToken,
+  type SearchIndex,
+  splitWords,
+  tokenize,
+  unionPostings,
+} from "@/lib/searchIndex";
+
+export const HAS_FILTERS = [
+  "photo",
+  "video",
+  "audio",
+  "file",
+  "gif",
+  "link",
+  "reaction",
+] as const;
+
+export type HasFilter = (typeof HAS_FILTERS)[number];
+
+export const IS_FILTERS = ["unsent", "call"] as const;
+
+export type IsFilter = (typeof IS_FILTERS)[number];
+
+export type DateOperator = "before" | "after" | "on";
+
+/** Parsed query; plain data so it can be posted to the search worker */
+export type QueryNode =
+  | { type: "term"; text: string }
+  | { type: "phrase"; words: string[] }
+  | { type: "regex"; source: string; flags: string }
+  | { type: "from"; name: string }
+  | { type: "has"; filter: HasFilter }
+  /** The day, month or year named in the query, as a local time range */
+  | { type: "date"; operator: DateOperator; start: number; end: number }
+  | { type: "reacted"; reaction: string }
+  | { type: "is"; filter: IsFilter }
+  | { type: "not"; node: QueryNode }
+  | { type: "and"; nodes: QueryNode[] }
+  | { type: "or"; nodes: QueryNode[] };
+
+/** A query with the options it runs with, enough to highlight its matches */
+export interface SearchHighlight {
+  query: QueryNode;
+  options: MatchOptions;
+}
+
+/** Highlight range in the original text, end exclusive */
+export type MatchRange = [start: number, end: number];
+
+const FIELDS = [
+  "from",
+  "has",
+  "before",
+  "after",
+  "on",
+  "reacted",
+  "is",
+] as const;
+
+type Field = (typeof FIELDS)[number];
+
+type Lexeme = { position: number } & (
+  | { kind: "open" | "close" | "or" | "not" }
+  | { kind: "word" | "phrase"; text: string }
+  | { kind: "regex"; source: string; flags: string }
+  | { kind: "field"; field: Field; value: string }
+);
+
+const FIELD_PATTERN = /([a-z]+):/y;
+const BARE_PATTERN = /[^\s()]+/y;
+const DATE_PATTERN = /^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/;
+
+/** Flags that would make RegExp.test stateful */
+const STATEFUL_FLAGS = /[gy]/g;
+
+function syntaxError(message: string, position: number): Error {
+  return new Error(`${message} (column ${position + 1})`);
+}
+
+function lex(input: string): Lexeme[] {
+  const lexemes: Lexeme[] = [];
+  let i = 0;
+
+  const readQuoted = (start: number): string => {
+    const end = input.indexOf('"', start + 1);
+    if (end === -1) throw syntaxError("Missing closing quote", start);
+    i = end + 1;
+    return input.slice(start + 1, end);
+  };
+
+  const readBare = (): string => {
+    BARE_PATTERN.lastIndex = i;
+    const match = BARE_PATTERN.exec(input);
+    const text = match?.[0] ?? "";
+    i += text.length;
+    return text;
+  };
+
+  while (i < input.length) {
+    const char = input[i];
+    const position = i;
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === "(" || char === ")") {
+      lexemes.push({ kind: char === "(" ? "open" : "close", position });
+      i++;
+    } else if (
+      char === "-" &&
+      i + 1 < input.length &&
+      /\S/.test(input[i + 1])
+    ) {
+      lexemes.push({ kind: "not", position });
+      i++;
+    } else if (char === '"') {
+      lexemes.push({ kind: "phrase", text: readQuoted(i), position });
+    } else if (char === "/") {
+      let end = i + 1;
+      while (end < input.length && input[end] !== "/") {
+        end += input[end] === "\\" ? 2 : 1;
+      }
+      if (end >= input.length) {
+        throw syntaxError("Missing closing / of the regex", position);
+      }
+      const source = input.slice(i + 1, end);
+      i = end + 1;
+      const flags = readBare();
+      try {
+        new RegExp(source, flags);
+      } catch (error) {
+        throw syntaxError(
+          error instanceof Error ? error.message : "Invalid regex",
+          position,
+        );
+      }
+      lexemes.push({
+        kind: "regex",
+        source,
+        flags: flags.replace(STATEFUL_FLAGS, ""),
+        position,
+      });
+    } else {
+      FIELD_PATTERN.lastIndex = i;
+      const field = FIELD_PATTERN.exec(input)?.[1];
+      if (field && (FIELDS as readonly string[]).includes(field)) {
+        i += field.length + 1;
+        const value = input[i] === '"' ? readQuoted(i) : readBare();
+        if (!value) throw syntaxError(`${field}: needs a value`, position);
+        lexemes.push({ kind: "field", field: field as Field, value, position });
+      } else {
+        const text = readBare();
+        lexemes.push(
+          text === "OR"
+            ? { kind: "or", position }
+            : { kind: "word", text, position },
+        );
+      }
+    }
+  }
+  return lexemes;
+}
+
+/**
+ * Local time range of a YYYY, YYYY-MM or YYYY-MM-DD date
+ */
+function parseDateRange(
+  value: string,
+): { start: number; end: number } | undefined {
+  const match = DATE_PATTERN.exec(value);
+  if (!match) return undefined;
+
+  const year = Number(match[1]);
+  const month = match[2] ? Number(match[2]) - 1 : undefined;
+  const day = match[3] ? Number(match[3]) : undefined;
+  const start = new Date(year, month ?? 0, day ?? 1);
+  // Rejects months and days that rolled over, like 2023-02-30
+  if (
+    (month !== undefined && start.getMonth() !== month) ||
+    (day !== undefined && start.getDate() !== day)
+  ) {
+    return undefined;
+  }
+
+  const end =
+    day !== undefined
+      ? new Date(year, month ?? 0, day + 1)
+      : month !== undefined
+        ? new Date(year, month + 1, 1)
+        : new Date(year + 1, 0, 1);
+  return { start: start.getTime(), end: end.getTime() };
+}
+
+function parseField(lexeme: Extract<Lexeme, { kind: "field" }>): QueryNode {
+  const { field, value, position } = lexeme;
+  switch (field) {
+    case "from":
+      return { type: "from", name: value };
+    case "reacted":
+      return { type: "reacted", reaction: value };
+    case "has": {
+      const filter = HAS_FILTERS.find((name) => name === value);
+      if (!filter) {
+        throw syntaxError(
+          `Unknown has:${value}, expected ${HAS_FILTERS.join(", ")}`,
+          position,
+        );
+      }
+      return { type: "has", filter };
+    }
+    case "is": {
+      const filter = IS_FILTERS.find((name) => name === value);
+      if (!filter) {
+        throw syntaxError(
+          `Unknown is:${value}, expected ${IS_FILTERS.join(", ")}`,
+          position,
+        );
+      }
+      return { type: "is", filter };
+    }
+    case "before":
+    case "after":
+    case "on": {
+      const range = parseDateRange(value);
+      if (!range) {
+        throw syntaxError(
+          `Invalid date "${value}", use YYYY, YYYY-MM or YYYY-MM-DD`,
+          position,
+        );
+      }
+      return { type: "date", operator: field, ...range };
+    }
+  }
+}
+
+/** Words become terms; words the tokenizer splits, like "e-mail", phrases */
+function wordsNode(text: string): QueryNode | null {
+  const words = tokenize(text).map((token) => token.text);
+  if (words.length === 0) return null;
+  return words.length === 1
+    ? { type: "term", text: words[0] }
+    : { type: "phrase", words };
+}
+
+function combine(type: "and" | "or", nodes: (QueryNode | null)[]) {
+  const present = nodes.filter((node) => node !== null);
+  if (present.length <= 1) return present[0] ?? null;
+  return { type, nodes: present };
+}
+
+/**
+ * Parse a search query
+ * @returns The query tree, or null when the query has nothing to search for
+ * @throws Error describing the first syntax error and its column
+ */
+export function parseSearchQuery(input: string): QueryNode | null {
+  const lexemes = lex(input);
+  let i = 0;
+
+  const parseOr = (): QueryNode | null => {
+    const nodes = [parseAnd()];
+    while (lexemes[i]?.kind === "or") {
+      const { position } = lexemes[i++];
+      const next = lexemes[i];
+      if (!next || next.kind === "or" || next.kind === "close") {
+        throw syntaxError("OR needs a term after it", position);
+      }
+      nodes.push(parseAnd());
+    }
+    return combine("or", nodes);
+  };
+
+  const parseAnd = (): QueryNode | null => {
+    const nodes: (QueryNode | null)[] = [];
+    while (
+      i < lexemes.length &&
+      lexemes[i].kind !== "or" &&
+      lexemes[i].kind !== "close"
+    ) {
+      nodes.push(parseUnary());
+    }
+    if (nodes.length === 0 && lexemes[i]?.kind === "or") {
+      throw syntaxError("OR needs a term before it", lexemes[i].position);
+    }
+    return combine("and", nodes);
+  };
+
+  const parseUnary = (): QueryNode | null => {
+    const lexeme = lexemes[i++];
+    switch (lexeme.kind) {
+      case "not": {
+        const next = lexemes[i];
+        if (!next || next.kind === "or" || next.kind === "close") {
+          throw syntaxError("- needs something to exclude", lexeme.position);
+        }
+        const node = parseUnary();
+        return node && { type: "not", node };
+      }
+      case "open": {
+        const node = parseOr();
+        if (lexemes[i]?.kind !== "close") {
+          throw syntaxError("Missing closing parenthesis", lexeme.position);
+        }
+        i++;
+        return node;
+      }
+      case "word":
+        return wordsNode(lexeme.text);
+      case "phrase":
+        return wordsNode(lexeme.text);
+      case "regex":
+        return { type: "regex", source: lexeme.source, flags: lexeme.flags };
+      case "field":
+        return parseField(lexeme);
+      default:
+        throw syntaxError(`Unexpected ${lexeme.kind}`, lexeme.position);
+    }
+  };
+
+  const query = parseOr();
+  if (i < lexemes.length) {
+    throw syntaxError("Unexpected )", lexemes[i].position);
+  }
+  return query;
+}
+
+/** Emoji are compared without their variation selectors: ❤ matches ❤️ */
+function normalizeReaction(reaction: string): string {
+  return reaction.replace(/\uFE0F/g, "");
+}
+
+const HAS_TESTS: Record<HasFilter, (message: Message) => boolean> = {
+  photo: (message) => Boolean(message.photos?.length),
+  video: (message) => Boolean(message.videos?.length),
+  audio: (message) => Boolean(message.audio_files?.length),
+  file: (message) => Boolean(message.files?.length),
+  gif: (message) => Boolean(message.gifs?.length),
+  link: (message) => Boolean(message.share?.link),
+  reaction: (message) => Boolean(message.reactions?.length),
+};
+
+const IS_TESTS: Record<IsFilter, (message: Message) => boolean> = {
+  unsent: (message) => Boolean(message.is_unsent),
+  call: (message) =>
+    message.type === "Call" ||
+    message.call_duration !== undefined ||
+    message.event === "missed_call",
+};
+
+/** Text regular expressions run over */
+function getMessageText(message: Message): string[] {
+  const texts: string[] = [];
+  if (message.content) texts.push(message.content);
+  if (message.share?.share_text) texts.push(message.share.share_text);
+  return texts;
+}
+
+/**
+ * Find runs of consecutive words in a text matching the phrase; all words
+ * but the last must match whole
+ * @param words - Words normalized with normalizeQueryToken
+ * @returns Range of each run in the original text
+ */
+function findPhrase(
+  text: string,
+  words: string[],
+  options: MatchOptions,
+): MatchRange[] {
+  const tokens = tokenize(text);
+  const normalized = tokens.map((token) =>
+    normalizeQueryToken(token.text, options),
+  );
+  const last = words.length - 1;
+  const ranges: MatchRange[] = [];
+  for (let i = 0; i + last < tokens.length; i++) {
+    let isMatch = true;
+    for (let j = 0; j < last && isMatch; j++) {
+      isMatch = normalized[i + j] === words[j];
+    }
+    if (!isMatch) continue;
+
+    // Only the last word's match length needs mapping back to the original
+    const length = matchToken(tokens[i + last].text, words[last], options);
+    if (length > 0)
+      ranges.push([tokens[i].start, tokens[i + last].start + length]);
+  }
+  return ranges;
+}
+
+/**
+ * Whether a text contains the phrase; like findPhrase without mapping matches
+ * back to the original, so the text is normalized in one go
+ */
+function containsPhrase(
+  text: string,
+  words: string[],
+  options: MatchOptions,
+): boolean {
+  const tokens = splitWords(normalizeQueryToken(text, options));
+  const last = words.length - 1;
+  for (let i = 0; i + last < tokens.length; i++) {
+    let isMatch = true;
+    for (let j = 0; j < last && isMatch; j++) {
+      isMatch = tokens[i + j] === words[j];
+    }
+    const lastToken = tokens[i + last];
+    if (
+      isMatch &&
+      (options.wholeWord
+        ? lastToken === words[last]
+        : lastToken.startsWith(words[last]))
+    ) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/** Test of one message and its position in the indexed messages */
+type MessageTest = (message: Message, messageIndex: number) => boolean;
+
+/** Mark the messages of a posting list for constant-time lookups */
+function toBitmap(index: SearchIndex, list: Uint32Array): Uint8Array {
+  const bitmap = new Uint8Array(index.messageCount);
+  for (const messageIndex of list) bitmap[messageIndex] = 1;
+  return bitmap;
+}
+
+/**
+ * Turn a query into a test for single messages, answering words from the
+ * index and normalizing names and compiling regexes once
+ */
+function compileQuery(
+  node: QueryNode,
+  options: MatchOptions,
+  index: SearchIndex,
+): MessageTest {
+  switch (node.type) {
+    case "term": {
+      // The index holds the same fields, so its list is the exact answer
+      const bitmap = toBitmap(index, getWordCandidates(index, node, options));
+      return (_, messageIndex) => bitmap[messageIndex] === 1;
+    }
+    case "phrase": {
+      const bitmap = toBitmap(index, getWordCandidates(index, node, options));
+      const words = node.words.map((word) =>
+        normalizeQueryToken(word, options),
+      );
+      return (message, messageIndex) =>
+        bitmap[messageIndex] === 1 &&
+        getSearchableFields(message).some((field) =>
+          containsPhrase(field, words, options),
+        );
+    }
+    case "regex": {
+      const pattern = new RegExp(node.source, node.flags);
+      return (message) =>
+        getMessageText(message).some((text) => pattern.test(text));
+    }
+    case "from": {
+      const name = normalizeQueryToken(node.name, options);
+      // A conversation has few senders; normalize each name once
+      const matches = new Map<string, boolean>();
+      return ({ sender_name }) => {
+        let isMatch = matches.get(sender_name);
+        if (isMatch === undefined) {
+          isMatch = normalizeQueryToken(sender_name, options).includes(name);
+          matches.set(sender_name, isMatch);
+        }
+        return isMatch;
+      };
+    }
+    case "has":
+      return HAS_TESTS[node.filter];
+    case "is":
+      return IS_TESTS[node.filter];
+    case "date": {
+      const { operator, start, end } = node;
+      return ({ timestamp_ms }) =>
+        operator === "before"
+          ? timestamp_ms < start
+          : operator === "after"
+            ? timestamp_ms >= end
+            : timestamp_ms >= start && timestamp_ms < end;
+    }
+    case "reacted": {
+      const reaction = normalizeReaction(node.reaction);
+      return (message) =>
+        message.reactions?.some(
+          (item) => normalizeReaction(item.reaction) === reaction,
+        ) ?? false;
+    }
+    case "not": {
+      const test = compileQuery(node.node, options, index);
+      return (message, messageIndex) => !test(message, messageIndex);
+    }
+    case "and": {
+      const tests = node.nodes.map((child) =>
+        compileQuery(child, options, index),
+      );
+      return (message, messageIndex) =>
+        tests.every((test) => test(message, messageIndex));
+    }
+    case "or": {
+      const tests = node.nodes.map((child) =>
+        compileQuery(child, options, index),
+      );
+      return (message, messageIndex) =>
+        tests.some((test) => test(message, messageIndex));
+    }
+  }
+}
+
+/**
+ * Messages containing a word, or every word of a phrase; all words of a
+ * phrase but the last must match whole
+ */
+function getWordCandidates(
+  index: SearchIndex,
+  node: Extract<QueryNode, { type: "term" | "phrase" }>,
+  options: MatchOptions,
+): Uint32Array {
+  const words = node.type === "term" ? [node.text] : node.words;
+  return words
+    .map((word, i) =>
+      lookupToken(index, normalizeQueryToken(word, options), {
+        ...options,
+        wholeWord: options.wholeWord || i < words.length - 1,
+      }),
+    )
+    .reduce((result, list) => intersectPostings(result, list));
+}
+
+/**
+ * Messages that can match according to the index alone
+ * @returns Ascending message indexes, or null when every message can match
+ */
+function getCandidates(
+  index: SearchIndex,
+  node: QueryNode,
+  options: MatchOptions,
+): Uint32Array | null {
+  switch (node.type) {
+    case "term":
+    case "phrase":
+      return getWordCandidates(index, node, options);
+    case "and": {
+      // Start from the rarest list so intersections stay small
+      const lists = node.nodes
+        .map((child) => getCandidates(index, child, options))
+        .filter((list) => list !== null)
+        .sort((a, b) => a.length - b.length);
+      return lists.length > 0
+        ? lists.reduce((result, list) => intersectPostings(result, list))
+        : null;
+    }
+    case "or": {
+      const lists = node.nodes.map((child) =>
+        getCandidates(index, child, options),
+      );
+      if (lists.some((list) => list === null)) return null;
+      return (lists as Uint32Array[]).reduce((result, list) =>
+        unionPostings(result, list),
+      );
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Find every message matching a query
+ * @param messages - The messages the index was built from
+ * @returns Ascending indexes into messages
+ */
+export function executeQuery(
+  index: SearchIndex,
+  messages: Message[],
+  query: QueryNode,
+  options: MatchOptions,
+): Uint32Array {
+  const candidates = getCandidates(index, query, options);
+  const test = compileQuery(query, options, index);
+  const hits: number[] = [];
+  if (candidates) {
+    for (const messageIndex of candidates) {
+      if (test(messages[messageIndex], messageIndex)) hits.push(messageIndex);
+    }
+  } else {
+    messages.forEach((message, messageIndex) => {
+      if (test(message, messageIndex)) hits.push(messageIndex);
+    });
+  }
+  return Uint32Array.from(hits);
+}
+
+/**
+ * Find the parts of a text the query's words, phrases and regexes match,
+ * ignoring excluded ones, as ranges of the original accented text
+ * @returns Ascending, non-overlapping ranges
+ */
+export function findQueryMatches(
+  text: string,
+  query: QueryNode,
+  options: MatchOptions,
+): MatchRange[] {
+  const ranges: MatchRange[] = [];
+
+  const collect = (node: QueryNode) => {
+    switch (node.type) {
+      case "term": {
+        const term = normalizeQueryToken(node.text, options);
+        for (const token of tokenize(text)) {
+          const length = matchToken(token.text, term, options);
+          if (length > 0) ranges.push([token.start, token.start + length]);
+        }
+        break;
+      }
+      case "phrase":
+        ranges.push(
+          ...findPhrase(
+            text,
+            node.words.map((word) => normalizeQueryToken(word, options)),
+            options,
+          ),
+        );
+        break;
+      case "regex": {
+        const pattern = new RegExp(node.source, `${node.flags}g`);
+        for (const match of text.matchAll(pattern)) {
+          if (match[0].length > 0) {
+            ranges.push([match.index, match.index + match[0].length]);
+          }
+        }
+        break;
+      }
+      case "and":
+      case "or":
+        node.nodes.forEach(collect);
+        break;
+    }
+  };
+  collect(query);
+
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged: MatchRange[] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) last[1] = Math.max(last[1], range[1]);
+    else merged.push([...range]);
+  }
+  return merged;
+}
@@ -0,0 +1,70 @@
+/**
+ * Poster frame extraction for video attachments
+ * Exports carry no thumbnails, so a frame is decoded and drawn into a canvas
+ */
+
+export interface VideoPoster {
+  /** JPEG of an early frame, or null when the video has no picture */
+  poster: Blob | null;
+  /** Duration in seconds */
+  duration: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Decode a video just far enough to capture a frame and read its duration
+ * @param src - Object URL (or any same-origin URL) of the video
+ * @param time - Seconds into the video; the very first frame is often black
+ */
+export function extractVideoPoster(
+  src: string,
+  time = 0.1,
+): Promise<VideoPoster> {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement("video");
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = "auto";
+
+    // Drop the source so the decoder is released right away
+    const release = () => {
+      video.removeAttribute("src");
+      video.load();
+    };
+
+    video.onloadedmetadata = () => {
+      const duration = Number.isFinite(video.duration) ? video.duration : 0;
+      video.currentTime = Math.min(time, duration / 2);
+    };
+
+    video.onseeked = () => {
+      const { videoWidth: width, videoHeight: height, duration } = video;
+      const canvas = document.createElement("canvas");
+      canvas.width = width;
+      canvas.height = height;
+      const context = canvas.getContext("2d");
+
+      if (!context || width === 0 || height === 0) {
+        release();
+        resolve({ poster: null, duration, width, height });
+        return;
+      }
+
+      context.drawImage(video, 0, 0, width, height);
+      release();
+      canvas.toBlob(
+        (poster) => resolve({ poster, duration, width, height }),
+        "image/jpeg",
+        0.8,
+      );
+    };
+
+    video.onerror = () => {
+      release();
+      reject(new Error("The video could not be decoded by this browser."));
+    };
+
+    video.src = src;
+  });
+}
@@ -0,0 +1,279 @@
+/**
+ * Minimal in-browser zip reader for Facebook export archives
+ * Only the central directory is read up front; entry data is sliced and
+ * inflated on demand so multi-gigabyte exports never sit in memory
+ */
+
+import type { ExportEntry } from "@/lib/messageUtils";
+
+const EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_EOCD_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+const EOCD_MIN_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+const LOCAL_HEADER_SIZE = 30;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+const MIME_TYPES: Record<string, string> = {
+  aac: "audio/aac",
+  gif: "image/gif",
+  heic: "image/heic",
+  html: "text/html",
+  jpeg: "image/jpeg",
+  jpg: "image/jpeg",
+  json: "application/json",
+  m4a: "audio/mp4",
+  mov: "video/quicktime",
+  mp3: "audio/mpeg",
+  mp4: "video/mp4",
+  ogg: "audio/ogg",
+  pdf: "application/pdf",
+  png: "image/png",
+  txt: "text/plain",
+  wav: "audio/wav",
+  webm: "video/webm",
+  webp: "image/webp",
+};
+
+interface CentralDirectoryRecord {
+  path: string;
+  method: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+  lastModified: number;
+}
+
+/**
+ * Guess a MIME type from a file name so blob URLs render in <img>/<video>
+ */
+export function guessMimeType(name: string): string {
+  const extension = name.split(".").pop()?.toLowerCase() ?? "";
+  return MIME_TYPES[extension] ?? "application/octet-stream";
+}
+
+export function isZipFile(file: File): boolean {
+  return (
+    file.type === "application/zip" ||
+    file.type === "application/x-zip-compressed" ||
+    file.name.toLowerCase().endsWith(".zip")
+  );
+}
+
+async function readView(
+  blob: Blob,
+  start: number,
+  end: number,
+): Promise<DataView> {
+  const buffer = await blob.slice(start, end).arrayBuffer();
+  return new DataView(buffer);
+}
+
+function readUint64(view: DataView, offset: number): number {
+  const low = view.getUint32(offset, true);
+  const high = view.getUint32(offset + 4, true);
+  return high * 0x100000000 + low;
+}
+
+/**
+ * Convert an MS-DOS date/time pair to a JS timestamp
+ */
+function dosDateTimeToMs(date: number, time: number): number {
+  return new Date(
+    ((date >> 9) & 0x7f) + 1980,
+    ((date >> 5) & 0x0f) - 1,
+    date & 0x1f,
+    (time >> 11) & 0x1f,
+    (time >> 5) & 0x3f,
+    (time & 0x1f) * 2,
+  ).getTime();
+}
+
+async function findEndOfCentralDirectory(file: File): Promise<{
+  entryCount: number;
+  directorySize: number;
+  directoryOffset: number;
+}> {
+  const searchStart = Math.max(0, file.size - EOCD_MIN_SIZE - MAX_COMMENT_SIZE);
+  const tail = await readView(file, searchStart, file.size);
+
+  let eocdOffset = -1;
+  for (let i = tail.byteLength - EOCD_MIN_SIZE; i >= 0; i--) {
+    if (tail.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocdOffset = i;
+      break;
+    }
+  }
+
+  if (eocdOffset < 0) {
+    throw new Error("Not a valid zip file: end of central directory missing.");
+  }
+
+  let entryCount = tail.getUint16(eocdOffset + 10, true);
+  let directorySize = tail.getUint32(eocdOffset + 12, true);
+  let directoryOffset = tail.getUint32(eocdOffset + 16, true);
+
+  // ZIP64 archives store the real values in a separate record
+  const locatorOffset = eocdOffset - 20;
+  if (
+    locatorOffset >= 0 &&
+    tail.getUint32(locatorOffset, true) === ZIP64_EOCD_LOCATOR_SIGNATURE
+  ) {
+    const zip64Offset = readUint64(tail, locatorOffset + 8);
+    const zip64 = await readView(file, zip64Offset, zip64Offset + 56);
+    if (zip64.getUint32(0, true) !== ZIP64_EOCD_SIGNATURE) {
+      throw new Error("Not a valid zip file: corrupt ZIP64 directory.");
+    }
+    entryCount = readUint64(zip64, 32);
+    directorySize = readUint64(zip64, 40);
+    directoryOffset = readUint64(zip64, 48);
+  }
+
+  return { entryCount, directorySize, directoryOffset };
+}
+
+function parseCentralDirectory(
+  view: DataView,
+  entryCount: number,
+): CentralDirectoryRecord[] {
+  const utf8 = new TextDecoder("utf-8");
+  const records: CentralDirectoryRecord[] = [];
+  let offset = 0;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error("Not a valid zip file: corrupt central directory.");
+    }
+
+    const method = view.getUint16(offset + 10, true);
+    const time = view.getUint16(offset + 12, true);
+    const date = view.getUint16(offset + 14, true);
+    let compressedSize = view.getUint32(offset + 20, true);
+    let uncompressedSize = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    let localHeaderOffset = view.getUint32(offset + 42, true);
+
+    const nameBytes = new Uint8Array(
+      view.buffer,
+      view.byteOffset + offset + 46,
+      nameLength,
+    );
+    const path = utf8.decode(nameBytes);
+
+    // ZIP64 extended information: only the saturated fields are present, in order
+    let extraOffset = offset + 46 + nameLength;
+    const extraEnd = extraOffset + extraLength;
+    while (extraOffset + 4 <= extraEnd) {
+      const headerId = view.getUint16(extraOffset, true);
+      const dataSize = view.getUint16(extraOffset + 2, true);
+      if (headerId === 0x0001) {
+        let fieldOffset = extraOffset + 4;
+        if (uncompressedSize === 0xffffffff) {
+          uncompressedSize = readUint64(view, fieldOffset);
+          fieldOffset += 8;
+        }
+        if (compressedSize === 0xffffffff) {
+          compressedSize = readUint64(view, fieldOffset);
+          fieldOffset += 8;
+        }
+        if (localHeaderOffset === 0xffffffff) {
+          localHeaderOffset = readUint64(view, fieldOffset);
+        }
+      }
+      extraOffset += 4 + dataSize;
+    }
+
+    records.push({
+      path,
+      method,
+      compressedSize,
+      uncompressedSize,
+      localHeaderOffset,
+      lastModified: dosDateTimeToMs(date, time),
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return records;
+}
+
+/**
+ * Read and inflate a single entry's data from the archive
+ */
+async function extractEntry(
+  file: File,
+  record: CentralDirectoryRecord,
+  name: string,
+): Promise<File> {
+  // The local header's name/extra lengths can differ from the central directory
+  const header = await readView(
+    file,
+    record.localHeaderOffset,
+    record.localHeaderOffset + LOCAL_HEADER_SIZE,
+  );
+  if (header.getUint32(0, true) !== LOCAL_HEADER_SIGNATURE) {
+    throw new Error(`Corrupt zip entry: ${record.path}`);
+  }
+
+  const dataStart =
+    record.localHeaderOffset +
+    LOCAL_HEADER_SIZE +
+    header.getUint16(26, true) +
+    header.getUint16(28, true);
+  const compressed = file.slice(dataStart, dataStart + record.compressedSize);
+  const options = {
+    type: guessMimeType(name),
+    lastModified: record.lastModified,
+  };
+
+  if (record.method === METHOD_STORED) {
+    return new File([compressed], name, options);
+  }
+
+  if (record.method === METHOD_DEFLATE) {
+    const inflated = await new Response(
+      compressed.stream().pipeThrough(new DecompressionStream("deflate-raw")),
+    ).blob();
+    return new File([inflated], name, options);
+  }
+
+  throw new Error(
+    `Unsupported compression method ${record.method} for ${record.path}`,
+  );
+}
+
+/**
+ * List the entries of a zip archive without inflating any of them
+ * @param file - The .zip file selected by the user
+ */
+export async function readZipEntries(file: File): Promise<ExportEntry[]> {
+  const { entryCount, directorySize, directoryOffset } =
+    await findEndOfCentralDirectory(file);
+  const directory = await readView(
+    file,
+    directoryOffset,
+    directoryOffset + directorySize,
+  );
+  const records = parseCentralDirectory(directory, entryCount);
+
+  return records
+    .filter((record) => !record.path.endsWith("/"))
+    .map((record) => {
+      const name = record.path.split("/").pop() ?? record.path;
+      return {
+        path: record.path,
+        name,
+        size: record.uncompressedSize,
+        lastModified: record.lastModified,
+        getFile: () => extractEntry(file, record, name),
+      };
+    });
+}
@@ -0,0 +1,189 @@
+/**
+ * Minimal in-browser zip writer for exporting attachments
+ * Media is already compressed, so entries are stored as-is; the archive is a
+ * Blob of headers and the original Files, which the browser reads lazily
+ * when saving instead of copying every attachment into memory
+ */
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const EOCD_SIGNATURE = 0x06054b50;
+
+const LOCAL_HEADER_SIZE = 30;
+const CENTRAL_HEADER_SIZE = 46;
+const EOCD_SIZE = 22;
+
+const VERSION = 20;
+const FLAG_UTF8 = 0x0800;
+const METHOD_STORED = 0;
+
+/** Largest size and offset a zip without ZIP64 records can hold */
+const MAX_ZIP_SIZE = 0xffffffff;
+const MAX_ZIP_ENTRIES = 0xffff;
+
+export interface ZipSource {
+  /** Path inside the archive */
+  name: string;
+  file: Blob;
+  lastModified: number;
+}
+
+export interface ZipProgress {
+  entriesWritten: number;
+  entryCount: number;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * CRC-32 of a blob, read in chunks so large videos never sit in memory
+ */
+async function crc32(blob: Blob): Promise<number> {
+  let crc = 0xffffffff;
+  const reader = blob.stream().getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    for (let i = 0; i < value.length; i++) {
+      crc = CRC_TABLE[(crc ^ value[i]) & 0xff] ^ (crc >>> 8);
+    }
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Convert a JS timestamp to an MS-DOS date/time pair
+ */
+function msToDosDateTime(ms: number): { date: number; time: number } {
+  const value = new Date(Math.max(ms, new Date(1980, 0, 1).getTime()));
+  return {
+    date:
+      ((value.getFullYear() - 1980) << 9) |
+      ((value.getMonth() + 1) << 5) |
+      value.getDate(),
+    time:
+      (value.getHours() << 11) |
+      (value.getMinutes() << 5) |
+      Math.floor(value.getSeconds() / 2),
+  };
+}
+
+/**
+ * Fields shared by the local and central headers, from "version needed"
+ * through the extra field length
+ */
+function writeEntryFields(
+  view: DataView,
+  offset: number,
+  entry: {
+    crc: number;
+    size: number;
+    nameLength: number;
+    lastModified: number;
+  },
+) {
+  const { date, time } = msToDosDateTime(entry.lastModified);
+  view.setUint16(offset, VERSION, true);
+  view.setUint16(offset + 2, FLAG_UTF8, true);
+  view.setUint16(offset + 4, METHOD_STORED, true);
+  view.setUint16(offset + 6, time, true);
+  view.setUint16(offset + 8, date, true);
+  view.setUint32(offset + 10, entry.crc, true);
+  view.setUint32(offset + 14, entry.size, true);
+  view.setUint32(offset + 18, entry.size, true);
+  view.setUint16(offset + 22, entry.nameLength, true);
+  view.setUint16(offset + 24, 0, true);
+}
+
+/**
+ * Package files into an uncompressed zip archive
+ * @param options.onProgress - Optional callback after each entry is checksummed
+ * @param options.signal - Aborting rejects with AbortError between entries
+ * @throws Error when the archive would need ZIP64 (over 4 GB or 65,535 files)
+ */
+export async function createZip(
+  sources: ZipSource[],
+  {
+    onProgress,
+    signal,
+  }: {
+    onProgress?: (progress: ZipProgress) => void;
+    signal?: AbortSignal;
+  } = {},
+): Promise<Blob> {
+  if (sources.length > MAX_ZIP_ENTRIES) {
+    throw new Error(
+      `Too many files for one archive (${sources.length}). Narrow the filters and export in parts.`,
+    );
+  }
+
+  const encoder = new TextEncoder();
+  const parts: BlobPart[] = [];
+  const centralHeaders: Uint8Array<ArrayBuffer>[] = [];
+  let offset = 0;
+
+  for (const [index, source] of sources.entries()) {
+    signal?.throwIfAborted();
+
+    const name = encoder.encode(source.name);
+    const entry = {
+      crc: await crc32(source.file),
+      size: source.file.size,
+      nameLength: name.length,
+      lastModified: source.lastModified,
+    };
+
+    const local = new Uint8Array(LOCAL_HEADER_SIZE + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+    writeEntryFields(localView, 4, entry);
+    local.set(name, LOCAL_HEADER_SIZE);
+
+    const central = new Uint8Array(CENTRAL_HEADER_SIZE + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+    centralView.setUint16(4, VERSION, true);
+    writeEntryFields(centralView, 6, entry);
+    // Comment length, disk number and attributes stay zero
+    centralView.setUint32(42, offset, true);
+    central.set(name, CENTRAL_HEADER_SIZE);
+
+    parts.push(local, source.file);
+    centralHeaders.push(central);
+    offset += local.length + entry.size;
+
+    if (offset > MAX_ZIP_SIZE) {
+      throw new Error(
+        "The selection is larger than 4 GB. Narrow the filters and export in parts.",
+      );
+    }
+
+    onProgress?.({ entriesWritten: index + 1, entryCount: sources.length });
+  }
+
+  const directorySize = centralHeaders.reduce(
+    (size, header) => size + header.length,
+    0,
+  );
+  const end = new Uint8Array(EOCD_SIZE);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, EOCD_SIGNATURE, true);
+  endView.setUint16(8, sources.length, true);
+  endView.setUint16(10, sources.length, true);
+  endView.setUint32(12, directorySize, true);
+  endView.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...centralHeaders, end], {
+    type: "application/zip",
+  });
+}
@@ -1,11 +1,28 @@
 import { createFileRoute } from "@tanstack/react-router";
-import { MessageCircleDashed } from "lucide-react";
-import { useCallback, useState } from "react";
+import {
+  DownloadIcon,
+  FolderPlusIcon,
+  HardDriveDownloadIcon,
+  MessageCircleDashed,
+  XIcon,
+} from "lucide-react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { toast } from "sonner";
+import { ConversationList } from "@/components/conversation-list";
 import { DateFilters } from "@/components/date-filters";
+import { DropZone } from "@/components/drop-zone";
+import { ExportMediaDialog } from "@/components/export-media-dialog";
+import { FilePreview } from "@/components/file-preview";
+import { FilesLinksPanel } from "@/components/files-links-panel";
 import { FolderUpload } from "@/components/folder-upload";
-import { SearchBar } from "@/components/search-bar";
+import { MediaGallery } from "@/components/media-gallery";
+import { MediaLightbox } from "@/components/media-lightbox";
+import { RecentConversations } from "@/components/recent-conversations";
+import { SearchBar, type SearchResults } from "@/components/search-bar";
+import { SearchResultsView } from "@/components/search-results-view";
 import ThemeToggle from "@/components/theme-toggle";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import {
   Empty,
@@ -27,24 +44,66 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { VirtualMessageList } from "@/components/virtual-message-list";
+import {
+  deleteConversation,
+  getStorageEstimate,
+  listConversations,
+  loadConversation,
+  type StorageEstimate,
+  type StoredConversation,
+  saveConversation,
+  saveConversationMedia,
+} from "@/lib/conversationStore";
+import {
+  ingestMessageFiles,
+  isAbortError,
+  summarizeThreads,
+} from "@/lib/messageIngest";
 import {
   buildFolderStructure,
+  detectMessagesPlatform,
+  type ExportPlatform,
+  type ExportSelection,
   extractParticipants,
+  type FileItem,
   type FolderStructure,
+  formatBytes,
+  getConversationAttachments,
+  getConversationFiles,
+  getConversationLinks,
+  getConversationMedia,
+  type IngestProgress,
   loadDemoChat,
+  MEDIA_KINDS,
   type Message,
-  processMessageFiles,
+  PLATFORM_LABELS,
+  type ThreadSource,
+  type ThreadSummary,
 } from "@/lib/messageUtils";
 
 export const Route = createFileRoute("/")({
   component: HomeComponent,
 });
 
+type ConversationView = "chat" | "media" | "files" | "results";
+
+function getIngestPercent(progress: IngestProgress): number {
+  const fileFraction =
+    progress.fileSize > 0 ? progress.bytesRead / progress.fileSize : 1;
+  return ((progress.fileIndex - 1 + fileFraction) / progress.fileCount) * 100;
+}
+
 function HomeComponent() {
   const [chatFolder, setChatFolder] = useState<string | null>(null);
   const [messages, setMessages] = useState<Message[]>([]);
   const [filteredMessages, setFilteredMessages] = useState<Message[]>([]);
+  // Messages shown while an import is still streaming in; derived views,
+  // filters and search wait for the finished list
+  const [streamingMessages, setStreamingMessages] = useState<Message[] | null>(
+    null,
+  );
   const [isProcessing, setIsProcessing] = useState(false);
   const [selectedMessageId, setSelectedMessageId] = useState<string | null>(
     null,
@@ -54,33 +113,134 @@ function HomeComponent() {
   const [participants, setParticipants] = useState<string[]>([]);
   const [folderStructure, setFolderStructure] =
     useState<FolderStructure | null>(null);
+  const [threadSummaries, setThreadSummaries] = useState<ThreadSummary[]>([]);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  // Every export the open conversation was loaded from, oldest selection first
+  const [loadedThreads, setLoadedThreads] = useState<ThreadSource[]>([]);
+  const [isMergePending, setIsMergePending] = useState(false);
+  const [platform, setPlatform] = useState<ExportPlatform>("facebook");
+  const [ingestProgress, setIngestProgress] = useState<IngestProgress | null>(
+    null,
+  );
+  const ingestAbortRef = useRef<AbortController | null>(null);
+  // Background save of the open conversation; media saves wait for it
+  const conversationSaveRef = useRef<Promise<void> | null>(null);
+  const [recentConversations, setRecentConversations] = useState<
+    StoredConversation[]
+  >([]);
+  const [storageEstimate, setStorageEstimate] =
+    useState<StorageEstimate | null>(null);
+  const [isSavingMedia, setIsSavingMedia] = useState(false);
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
+  const [view, setView] = useState<ConversationView>("chat");
+  const [previewFile, setPreviewFile] = useState<FileItem | null>(null);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [searchResults, setSearchResults] = useState<SearchResults | null>(
+    null,
+  );
+  const [activeHitId, setActiveHitId] = useState<string | null>(null);
+  const [conversationKey, setConversationKey] = useState(0);
+  // Remounting the date filters clears their range
+  const [dateFilterKey, setDateFilterKey] = useState(0);
 
-  const handleFolderSelected = async (files: File[], folder: string) => {
-    setIsProcessing(true);
-    setChatFolder(folder);
+  // The lightbox flips through the whole conversation, not just the filtered range
+  const mediaItems = useMemo(() => getConversationMedia(messages), [messages]);
+  const fileItems = useMemo(() => getConversationFiles(messages), [messages]);
+  const linkItems = useMemo(() => getConversationLinks(messages), [messages]);
+  const attachmentItems = useMemo(
+    () => getConversationAttachments(messages, MEDIA_KINDS),
+    [messages],
+  );
+
+  const refreshRecentConversations = useCallback(async () => {
+    setRecentConversations(await listConversations());
+    setStorageEstimate(await getStorageEstimate());
+  }, []);
+
+  useEffect(() => {
+    refreshRecentConversations().catch((error) => console.error(error));
+  }, [refreshRecentConversations]);
+
+  /**
+   * Drop the open conversation along with the search, viewers and dialogs
+   * that point into it
+   */
+  const clearConversation = () => {
     setMessages([]);
+    setStreamingMessages(null);
     setFolderStructure(null);
-    setProgress({ current: 0, total: 0 });
+    setSearchResults(null);
+    setActiveHitId(null);
+    setLightboxIndex(null);
+    setPreviewFile(null);
+    setIsExportOpen(false);
+    // Remounts the search bar so the last conversation's query is cleared
+    setConversationKey((key) => key + 1);
+  };
+
+  /**
+   * Load a conversation from one or more exports of the same thread
+   * The first thread's id keys the saved copy, so merges replace it
+   */
+  const openThreads = async (threads: ThreadSource[], folder: string) => {
+    const abortController = new AbortController();
+    ingestAbortRef.current = abortController;
+    setIsProcessing(true);
+    setActiveThreadId(threads[0].id);
+    setLoadedThreads(threads);
+    setPlatform(threads[0].platform);
+    setChatFolder(folder);
+    clearConversation();
+    setIngestProgress(null);
 
     const toastId = toast.loading("Building folder structure...");
+    // Batches arrive faster than frames; show the latest once per frame
+    let latestBatch: Message[] = [];
+    let batchFrame: number | null = null;
+    const cancelBatchFrame = () => {
+      if (batchFrame !== null) cancelAnimationFrame(batchFrame);
+      batchFrame = null;
+    };
 
     try {
-      // Build folder structure for media preview
-      const structure = buildFolderStructure(files);
+      // Build folder structure for media preview, across every export
+      const structure = buildFolderStructure(
+        threads.flatMap((thread) => thread.entries),
+        threads.flatMap((thread) => thread.directories),
+      );
       setFolderStructure(structure);
 
       // Process message files
       toast.loading("Processing message files...", { id: toastId });
-      const processedMessages = await processMessageFiles(
-        files,
-        (current, total) => {
-          setProgress({ current, total });
-        },
-      );
+      const { messages: processedMessages, duplicatesDropped } =
+        await ingestMessageFiles(
+          threads.map((thread) => thread.entries),
+          {
+            onProgress: setIngestProgress,
+            // Show the first pages while later files are still streaming in
+            onMessages: (loaded) => {
+              latestBatch = loaded;
+              batchFrame ??= requestAnimationFrame(() => {
+                batchFrame = null;
+                setStreamingMessages(latestBatch);
+              });
+            },
+            signal: abortController.signal,
+          },
+        );
 
+      cancelBatchFrame();
+      setStreamingMessages(null);
       setMessages(processedMessages);
       setFilteredMessages(processedMessages);
 
+      // Folder names only reveal Instagram when the export root was selected
+      const detectedPlatform =
+        threads[0].platform === "instagram"
+          ? "instagram"
+          : detectMessagesPlatform(processedMessages);
+      setPlatform(detectedPlatform);
+
       // Extract participants and set first as main user
       const participantsList = extractParticipants(processedMessages);
       setParticipants(participantsList);
@@ -89,24 +249,227 @@ function HomeComponent() {
       }
 
       toast.success(
-        `Successfully loaded ${processedMessages.length} messages from ${folder}`,
+        threads.length > 1
+          ? `Merged ${threads.length} exports into ${processedMessages.length} messages (${duplicatesDropped} duplicates dropped)`
+          : `Successfully loaded ${processedMessages.length} messages from ${folder}`,
         { id: toastId },
       );
+
+      // Persist in the background so a reload can reopen it instantly
+      conversationSaveRef.current = saveConversation({
+        id: threads[0].id,
+        title: folder,
+        participants: participantsList,
+        platform: detectedPlatform,
+        messages: processedMessages,
+      })
+        .then(refreshRecentConversations)
+        .catch((error) => {
+          toast.error(
+            `Failed to save conversation: ${error instanceof Error ? error.message : "Unknown error"}`,
+          );
+          console.error(error);
+        });
     } catch (error) {
+      if (isAbortError(error)) {
+        setMessages([]);
+        setFilteredMessages([]);
+        setChatFolder(null);
+        setActiveThreadId(null);
+        setLoadedThreads([]);
+        toast.info("Loading cancelled", { id: toastId });
+        return;
+      }
       toast.error(
         `Failed to process messages: ${error instanceof Error ? error.message : "Unknown error"}`,
         { id: toastId },
       );
       console.error(error);
     } finally {
+      cancelBatchFrame();
+      setStreamingMessages(null);
+      ingestAbortRef.current = null;
+      setIngestProgress(null);
       setIsProcessing(false);
     }
   };
 
+  /**
+   * Copy the open conversation's media into the saved copy, so it can be
+   * reopened with media and without the folder
+   */
+  const handleSaveMedia = async () => {
+    if (!activeThreadId || !folderStructure) return;
+    setIsSavingMedia(true);
+    const toastId = toast.loading("Saving media...");
+
+    try {
+      await conversationSaveRef.current;
+      const conversation = await saveConversationMedia(
+        activeThreadId,
+        messages,
+        folderStructure,
+        {
+          onProgress: (saved, total) =>
+            toast.loading(`Saving media... ${saved} of ${total}`, {
+              id: toastId,
+            }),
+        },
+      );
+      toast.success(
+        `Saved ${conversation.mediaCount} media files (${formatBytes(conversation.mediaBytes)})`,
+        { id: toastId },
+      );
+      await refreshRecentConversations();
+    } catch (error) {
+      toast.error(
+        `Failed to save media: ${error instanceof Error ? error.message : "Unknown error"}`,
+        { id: toastId },
+      );
+      console.error(error);
+    } finally {
+      setIsSavingMedia(false);
+    }
+  };
+
+  const handleCancelIngest = () => {
+    ingestAbortRef.current?.abort();
+  };
+
+  const handleRecentOpen = async (id: string) => {
+    setIsProcessing(true);
+    clearConversation();
+
+    const toastId = toast.loading("Opening saved conversation...");
+
+    try {
+      const {
+        conversation,
+        messages: storedMessages,
+        folderStructure,
+      } = await loadConversation(id);
+
+      setActiveThreadId(conversation.id);
+      // Saved copies keep no folder access, so they cannot be merged into
+      setLoadedThreads([]);
+      setPlatform(conversation.platform ?? "facebook");
+      setChatFolder(conversation.title);
+      setFolderStructure(folderStructure);
+      setMessages(storedMessages);
+      setFilteredMessages(storedMessages);
+      setParticipants(conversation.participants);
+      setMainUser(conversation.participants[0] ?? null);
+
+      toast.success(
+        `Opened ${storedMessages.length} saved messages from ${conversation.title}`,
+        { id: toastId },
+      );
+    } catch (error) {
+      toast.error(
+        `Failed to open conversation: ${error instanceof Error ? error.message : "Unknown error"}`,
+        { id: toastId },
+      );
+      console.error(error);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleRecentDelete = async (id: string) => {
+    try {
+      await deleteConversation(id);
+      await refreshRecentConversations();
+    } catch (error) {
+      toast.error(
+        `Failed to delete conversation: ${error instanceof Error ? error.message : "Unknown error"}`,
+      );
+      console.error(error);
+    }
+  };
+
+  const handleFolderSelected = async ({ threads }: ExportSelection) => {
+    if (isMergePending && chatFolder) {
+      setIsMergePending(false);
+      await mergeExport(threads, chatFolder);
+      return;
+    }
+
+    setThreadSummaries([]);
+
+    // A single chat folder opens directly, like before
+    if (threads.length === 1) {
+      await openThreads(threads, threads[0].folder);
+      return;
+    }
+
+    setIsProcessing(true);
+    setProgress({ current: 0, total: 0 });
+    const toastId = toast.loading(
+      `Indexing ${threads.length} conversations...`,
+    );
+
+    try {
+      const summaries = await summarizeThreads(threads, (current, total) => {
+        setProgress({ current, total });
+      });
+      setThreadSummaries(summaries);
+
+      toast.success(`Found ${summaries.length} conversations`, {
+        id: toastId,
+      });
+    } catch (error) {
+      toast.error(
+        `Failed to index conversations: ${error instanceof Error ? error.message : "Unknown error"}`,
+        { id: toastId },
+      );
+      console.error(error);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  /**
+   * Add another export of the open conversation, matched by thread folder name
+   * A selection holding a single thread is taken as-is
+   */
+  const mergeExport = async (threads: ThreadSource[], folder: string) => {
+    const loadedFolders = new Set(loadedThreads.map((thread) => thread.folder));
+    const match =
+      threads.find((thread) => loadedFolders.has(thread.folder)) ??
+      (threads.length === 1 ? threads[0] : undefined);
+
+    if (!match) {
+      toast.error(
+        `Failed to merge export: ${loadedThreads[0]?.folder ?? folder} was not found in the selected folder`,
+      );
+      return;
+    }
+
+    await openThreads([...loadedThreads, match], folder);
+  };
+
+  const handleMergeStart = () => {
+    setIsMergePending(true);
+    toast.info(
+      "Select or drop another export containing this conversation to merge it",
+    );
+  };
+
+  const handleDropError = useCallback((message: string) => {
+    toast.error(message);
+  }, []);
+
+  const handleThreadSelect = (summary: ThreadSummary) => {
+    openThreads([summary.thread], summary.title);
+  };
+
   const handleDemoLoad = async () => {
     setIsProcessing(true);
+    setActiveThreadId(null);
+    setLoadedThreads([]);
+    setPlatform("facebook");
     setChatFolder("Demo Chat - Movie Night Squad");
-    setMessages([]);
+    clearConversation();
 
     const toastId = toast.loading("Loading demo chat...");
 
@@ -148,6 +511,57 @@ function HomeComponent() {
     setTimeout(() => setSelectedMessageId(null), 3000);
   }, []);
 
+  const handleHitSelect = useCallback((messageId: string | null) => {
+    setActiveHitId(messageId);
+    // The results view scrolls to the hit itself
+    if (messageId) {
+      setView((current) => (current === "results" ? current : "chat"));
+    }
+  }, []);
+
+  const handleSearchResultsChange = useCallback(
+    (results: SearchResults | null) => {
+      setSearchResults(results);
+      if (!results) {
+        setView((current) => (current === "results" ? "chat" : current));
+      }
+    },
+    [],
+  );
+
+  const handleJumpToMessage = useCallback(
+    (messageId: string) => {
+      setView("chat");
+      // Media and file views cover the whole conversation, not the date range
+      if (!filteredMessages.some((message) => message.id === messageId)) {
+        setDateFilterKey((key) => key + 1);
+        toast.info("Cleared the date filter to show this message");
+      }
+      handleMessageSelect(messageId);
+    },
+    [filteredMessages, handleMessageSelect],
+  );
+
+  const handleFileOpen = useCallback(
+    (messageId: string, uri: string) => {
+      const file = fileItems.find(
+        (item) => item.messageId === messageId && item.attachment.uri === uri,
+      );
+      if (file) setPreviewFile(file);
+    },
+    [fileItems],
+  );
+
+  const handleMediaOpen = useCallback(
+    (messageId: string, uri: string) => {
+      const index = mediaItems.findIndex(
+        (item) => item.messageId === messageId && item.attachment.uri === uri,
+      );
+      if (index >= 0) setLightboxIndex(index);
+    },
+    [mediaItems],
+  );
+
   return (
     <ResizablePanelGroup direction="horizontal" className="max-h-svh min-h-svh">
       {/* Left Panel - Folder Operations */}
@@ -159,8 +573,58 @@ function HomeComponent() {
             isProcessing={isProcessing}
           />
 
+          {/* Waiting for another export of the open conversation */}
+          {isMergePending && (
+            <Card className="mt-4 gap-2 p-4">
+              <p className="text-sm">
+                Select or drop another export of {chatFolder} to merge it into
+                this conversation.
+              </p>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setIsMergePending(false)}
+              >
+                Cancel merge
+              </Button>
+            </Card>
+          )}
+
+          {/* Ingestion Progress */}
+          {isProcessing && ingestProgress && (
+            <Card className="mt-4 gap-0 p-4">
+              <div className="flex items-center justify-between gap-2">
+                <p className="truncate text-sm">
+                  File {ingestProgress.fileIndex} / {ingestProgress.fileCount}:{" "}
+                  {ingestProgress.fileName}
+                </p>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6 shrink-0"
+                  onClick={handleCancelIngest}
+                  aria-label="Cancel loading"
+                >
+                  <XIcon className="h-3 w-3" />
+                </Button>
+              </div>
+              <div className="mt-2 h-2 overflow-hidden rounded-full bg-muted">
+                <Progress
+                  className="h-full"
+                  value={getIngestPercent(ingestProgress)}
+                />
+              </div>
+              <div className="mt-2 flex items-center justify-between text-muted-foreground text-xs">
+                <span>
+                  {ingestProgress.messagesProcessed.toLocaleString()} messages
+                </span>
+                <span>{Math.round(getIngestPercent(ingestProgress))}%</span>
+              </div>
+            </Card>
+          )}
+
           {/* Processing Progress */}
-          {isProcessing && progress.total > 0 && (
+          {isProcessing && !ingestProgress && progress.total > 0 && (
             <Card className="mt-4 p-4">
               <div className="flex items-center justify-between">
                 <p className="text-sm">
@@ -178,6 +642,32 @@ function HomeComponent() {
               </div>
             </Card>
           )}
+
+          {/* Conversations from a whole-export selection */}
+          {threadSummaries.length > 0 && (
+            <div className="mt-6">
+              <h3 className="mb-3 font-semibold text-sm">Conversations</h3>
+              <ConversationList
+                summaries={threadSummaries}
+                activeThreadId={activeThreadId}
+                onThreadSelect={handleThreadSelect}
+                disabled={isProcessing}
+              />
+            </div>
+          )}
+
+          {/* Conversations saved in IndexedDB */}
+          <div className="mt-6">
+            <h3 className="mb-3 font-semibold text-sm">Recent Conversations</h3>
+            <RecentConversations
+              conversations={recentConversations}
+              activeId={activeThreadId}
+              storageEstimate={storageEstimate}
+              onOpen={handleRecentOpen}
+              onDelete={handleRecentDelete}
+              disabled={isProcessing}
+            />
+          </div>
         </div>
       </ResizablePanel>
 
@@ -185,18 +675,66 @@ function HomeComponent() {
 
       {/* Middle Panel - Chat View */}
       <ResizablePanel defaultSize={60} minSize={40}>
-        <div className="flex h-full flex-col">
-          {chatFolder && messages.length > 0 ? (
+        <DropZone
+          className="flex h-full flex-col"
+          onFolderSelected={handleFolderSelected}
+          onError={handleDropError}
+          disabled={isProcessing}
+        >
+          {chatFolder && (streamingMessages ?? messages).length > 0 ? (
             <>
               {/* Chat Header */}
               <div className="flex items-center justify-between border-b px-6 py-4">
                 <div>
-                  <h2 className="font-semibold text-xl">{chatFolder}</h2>
+                  <div className="flex items-center gap-2">
+                    <h2 className="font-semibold text-xl">{chatFolder}</h2>
+                    <Badge variant="secondary">
+                      {PLATFORM_LABELS[platform]}
+                    </Badge>
+                  </div>
                   <p className="text-muted-foreground text-sm">
-                    {filteredMessages.length} of {messages.length} messages
+                    {streamingMessages
+                      ? `${streamingMessages.length} messages loaded so far`
+                      : `${filteredMessages.length} of ${messages.length} messages`}
+                    {loadedThreads.length > 1 &&
+                      ` · ${loadedThreads.length} exports`}
                   </p>
                 </div>
                 <div className="flex items-center gap-2">
+                  {loadedThreads.length > 0 && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={handleMergeStart}
+                      disabled={isProcessing || isMergePending}
+                    >
+                      <FolderPlusIcon className="h-4 w-4" />
+                      Add export
+                    </Button>
+                  )}
+                  {loadedThreads.length > 0 &&
+                    folderStructure &&
+                    attachmentItems.length > 0 && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={handleSaveMedia}
+                        disabled={isProcessing || isSavingMedia}
+                      >
+                        <HardDriveDownloadIcon className="h-4 w-4" />
+                        Save media
+                      </Button>
+                    )}
+                  {folderStructure && attachmentItems.length > 0 && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setIsExportOpen(true)}
+                    >
+                      <DownloadIcon className="h-4 w-4" />
+                      Export media
+                    </Button>
+                  )}
                   <label
                     htmlFor="user-select"
                     className="text-muted-foreground text-sm"
@@ -221,16 +759,112 @@ function HomeComponent() {
                 </div>
               </div>
 
-              {/* Message List */}
-              <div className="flex-1 overflow-hidden">
-                <VirtualMessageList
-                  messages={filteredMessages}
-                  selectedMessageId={selectedMessageId}
-                  mainUser={mainUser}
-                  folderStructure={folderStructure}
-                  containerHeight={0}
-                />
-              </div>
+              <Tabs
+                value={view}
+                onValueChange={(value) => setView(value as ConversationView)}
+                className="min-h-0 flex-1 gap-0"
+              >
+                <div className="border-b px-6 py-2">
+                  <TabsList>
+                    <TabsTrigger value="chat">Chat</TabsTrigger>
+                    <TabsTrigger value="media">
+                      Media
+                      <span className="text-muted-foreground text-xs">
+                        {mediaItems.length}
+                      </span>
+                    </TabsTrigger>
+                    <TabsTrigger value="files">
+                      Files & Links
+                      <span className="text-muted-foreground text-xs">
+                        {fileItems.length + linkItems.length}
+                      </span>
+                    </TabsTrigger>
+                    {searchResults && (
+                      <TabsTrigger value="results">
+                        Search Results
+                        <span className="text-muted-foreground text-xs">
+                          {searchResults.hits.length}
+                        </span>
+                      </TabsTrigger>
+                    )}
+                  </TabsList>
+                </div>
+
+                {/* Message List - kept mounted to hold its scroll position */}
+                <TabsContent
+                  value="chat"
+                  forceMount
+                  className="overflow-hidden data-[state=inactive]:hidden"
+                >
+                  <VirtualMessageList
+                    messages={streamingMessages ?? filteredMessages}
+                    selectedMessageId={selectedMessageId}
+                    activeHitId={activeHitId}
+                    highlight={searchResults}
+                    mainUser={mainUser}
+                    folderStructure={folderStructure}
+                    onMediaOpen={handleMediaOpen}
+                    onFileOpen={handleFileOpen}
+                    containerHeight={0}
+                  />
+                </TabsContent>
+
+                {/* Media Gallery */}
+                <TabsContent value="media" className="overflow-hidden">
+                  <MediaGallery
+                    items={mediaItems}
+                    folderStructure={folderStructure}
+                    onJumpToMessage={handleJumpToMessage}
+                    onItemOpen={setLightboxIndex}
+                  />
+                </TabsContent>
+
+                {/* Files & Links */}
+                <TabsContent value="files" className="overflow-hidden">
+                  <FilesLinksPanel
+                    files={fileItems}
+                    links={linkItems}
+                    folderStructure={folderStructure}
+                    onJumpToMessage={handleJumpToMessage}
+                    onFileOpen={setPreviewFile}
+                  />
+                </TabsContent>
+
+                {/* Search hits in context */}
+                {searchResults && (
+                  <TabsContent value="results" className="overflow-hidden">
+                    <SearchResultsView
+                      results={searchResults}
+                      activeHitId={activeHitId}
+                      mainUser={mainUser}
+                      folderStructure={folderStructure}
+                      onJumpToMessage={handleJumpToMessage}
+                      onMediaOpen={handleMediaOpen}
+                      onFileOpen={handleFileOpen}
+                    />
+                  </TabsContent>
+                )}
+              </Tabs>
+              <MediaLightbox
+                items={mediaItems}
+                index={lightboxIndex}
+                folderStructure={folderStructure}
+                onClose={() => setLightboxIndex(null)}
+                onJumpToMessage={handleJumpToMessage}
+              />
+              <ExportMediaDialog
+                open={isExportOpen}
+                onOpenChange={setIsExportOpen}
+                items={attachmentItems}
+                folderStructure={folderStructure}
+                title={chatFolder}
+              />
+              <FilePreview
+                file={previewFile}
+                folderStructure={folderStructure}
+                onClose={() => setPreviewFile(null)}
+                onJumpToMessage={handleJumpToMessage}
+              />
             </>
           ) : (
             <div className="flex h-full items-center justify-center">
@@ -241,14 +875,15 @@ function HomeComponent() {
                   </EmptyMedia>
                   <EmptyTitle>No Conversation Loaded</EmptyTitle>
                   <EmptyDescription>
-                    Select a Facebook Messenger export folder or load the demo
-                    chat to get started viewing your messages.
+                    Select a Facebook Messenger export folder, drop a folder or
+                    export .zip here, or load the demo chat to get started
+                    viewing your messages.
                   </EmptyDescription>
                 </EmptyHeader>
               </Empty>
             </div>
           )}
-        </div>
+        </DropZone>
       </ResizablePanel>
 
       <ResizableHandle />
@@ -262,15 +897,19 @@ function HomeComponent() {
           <div className="space-y-6">
             <div>
               <h3 className="mb-3 font-semibold text-sm">Search Messages</h3>
+              {/* Searches within the date filter, so every hit is in the chat */}
               <SearchBar
-                messages={messages}
-                onMessageSelect={handleMessageSelect}
+                key={conversationKey}
+                messages={filteredMessages}
+                onHitSelect={handleHitSelect}
+                onResultsChange={handleSearchResultsChange}
               />
             </div>
 
             <div>
               <h3 className="mb-3 font-semibold text-sm">Filter by Date</h3>
               <DateFilters
+                key={dateFilterKey}
                 messages={messages}
                 onFilterChange={handleFilterChange}
               />